@@ -0,0 +1,76 @@
+import { spawn } from 'node:child_process';
+import { VroomProblem, VroomSolution, VroomSolveOptions } from './types.js';
+import { VroomSolver, parseVroomOutput } from './solver.js';
+
+export interface VroomBinarySolverOptions {
+  binary?: string; // path to the vroom executable (defaults to 'vroom' on the PATH)
+  threads?: number; // default -t, overridden per solve
+  explore?: number; // default -x, overridden per solve
+  timeout?: number; // default -l in seconds, overridden per solve
+}
+
+/**
+ * Runs a local vroom binary, writing the problem to stdin and reading the
+ * solution from stdout. Aborting the signal kills the process.
+ */
+export class VroomBinarySolver implements VroomSolver {
+  readonly name = 'binary';
+  private binary: string;
+  private defaults: VroomSolveOptions;
+
+  constructor(options: VroomBinarySolverOptions = {}) {
+    const { binary = 'vroom', ...defaults } = options;
+    this.binary = binary;
+    this.defaults = defaults;
+  }
+
+  solve(problem: VroomProblem, options: VroomSolveOptions = {}, signal?: AbortSignal): Promise<VroomSolution> {
+    const { threads, explore, timeout } = { ...this.defaults, ...options };
+    const args: string[] = [];
+    if (threads !== undefined) {
+      args.push('-t', String(threads));
+    }
+    if (explore !== undefined) {
+      args.push('-x', String(explore));
+    }
+    if (timeout !== undefined) {
+      args.push('-l', String(timeout));
+    }
+    if (problem.options?.g) {
+      args.push('-g');
+    }
+    if (problem.options?.c) {
+      args.push('-c');
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binary, args, { signal, stdio: ['pipe', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout.setEncoding('utf8').on('data', chunk => stdout += chunk);
+      child.stderr.setEncoding('utf8').on('data', chunk => stderr += chunk);
+      child.on('error', reject);
+      child.on('close', code => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        // VROOM writes its JSON error (with a non-zero code) to stdout as well
+        if (code !== 0 && !stdout) {
+          reject(new Error(`vroom exited with code ${code}: ${stderr.trim()}`));
+          return;
+        }
+        try {
+          resolve(parseVroomOutput(this.name, stdout, code !== 0 ? `exit code ${code}` : undefined));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      // The process may exit before reading all of its input
+      child.stdin.on('error', () => {});
+      child.stdin.end(JSON.stringify(problem));
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Pairs from this longitude cannot be routed; VROOM fails problems with a job 99
+const FAILING_LNG = 8.7;
+
+let server: Server;
+let baseUrl: string;
+let directory: string;
+
+// Answers ORS matrix and vroom-express requests
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url?.startsWith('/v2/matrix/')) {
+        const { locations, sources, destinations } = request as { locations: number[][]; sources: number[]; destinations: number[] };
+        const table = (value: number) => sources.map(from => destinations.map(to =>
+          from !== to && locations[from][0] === FAILING_LNG ? null : value));
+        res.end(JSON.stringify({ durations: table(60), distances: table(1) }));
+        return;
+      }
+      if (request.jobs.some((job: { id: number }) => job.id === 99)) {
+        res.end(JSON.stringify({ code: 2, error: 'Invalid job' }));
+        return;
+      }
+      res.end(JSON.stringify({
+        code: 0,
+        summary: {
+          cost: 0, routes: 0, unassigned: 0, setup: 0, service: 0, duration: 0, waiting_time: 0, priority: 0,
+          computing_times: { loading: 0, solving: 0, routing: 0 }
+        },
+        unassigned: [],
+        routes: []
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  directory = await mkdtemp(path.join(tmpdir(), 'vroom-ors-cli-'));
+});
+
+after(async () => {
+  server.close();
+  await rm(directory, { recursive: true, force: true });
+});
+
+// Runs the CLI against the fake services and resolves with its exit code and output
+function run(args: string[]): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [
+      '--import', 'tsx', path.join(import.meta.dirname, 'cli.ts'),
+      ...args, '--ors-url', baseUrl, '--vroom-url', baseUrl, '--geometry', 'none', '-q'
+    ], { env: { ...process.env, ORS_API_KEY: '' } });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => stdout += chunk);
+    child.stderr.on('data', chunk => stderr += chunk);
+    child.on('error', reject);
+    child.on('close', code => resolve({ code, stdout, stderr }));
+  });
+}
+
+async function problemFile(jobLngs: number[], jobId: number = 1): Promise<string> {
+  const file = path.join(directory, `problem-${jobId}-${jobLngs.join('-')}.json`);
+  await writeFile(file, JSON.stringify({
+    vehicles: [{ id: 1, start: [8.68, 49.41] }],
+    jobs: jobLngs.map((lng, index) => ({ id: jobId + index, location: [lng, 49.42] }))
+  }));
+  return file;
+}
+
+test('exits 0 and writes the solution when every pair is routed', async () => {
+  const { code, stdout } = await run(['solve', await problemFile([8.69])]);
+
+  assert.equal(code, 0);
+  assert.equal(JSON.parse(stdout).code, 0);
+});
+
+test('exits 4 when unreachable pairs are left penalized, after writing the solution', async () => {
+  const { code, stdout, stderr } = await run(['solve', await problemFile([8.69, FAILING_LNG])]);
+
+  assert.equal(code, 4);
+  assert.equal(JSON.parse(stdout).unreachable.length, 2);
+  assert.match(stderr, /2 location pairs could not be routed/);
+});
+
+test('exits 0 when the estimate or exclude policy handled the unreachable pairs', async () => {
+  const file = await problemFile([8.69, FAILING_LNG]);
+
+  assert.equal((await run(['solve', file, '--unreachable', 'estimate'])).code, 0);
+  assert.equal((await run(['solve', file, '--unreachable', 'exclude'])).code, 0);
+});
+
+test('exits 4 when the fail policy rejects unreachable pairs', async () => {
+  const { code, stdout } = await run(['solve', await problemFile([8.69, FAILING_LNG]), '--unreachable', 'fail']);
+
+  assert.equal(code, 4);
+  assert.equal(stdout, '');
+});
+
+test('exits 3 on VROOM errors', async () => {
+  assert.equal((await run(['solve', await problemFile([8.69], 99)])).code, 3);
+});
+
+test('exits 2 on invalid usage or input', async () => {
+  const file = await problemFile([8.69]);
+  const invalid = path.join(directory, 'invalid.json');
+  await writeFile(invalid, '{');
+
+  assert.equal((await run([])).code, 2);
+  assert.equal((await run(['solve', file, '--profile', 'driving-rocket'])).code, 2);
+  assert.equal((await run(['solve', file, '--unreachable', 'ignore'])).code, 2);
+  assert.equal((await run(['solve', invalid])).code, 2);
+  assert.equal((await run(['solve', path.join(directory, 'missing.json')])).code, 2);
+});
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { config } from 'dotenv';
+import {
+  VroomORS,
+  VroomError,
+  UnreachablePairsError,
+  InvalidProblemError,
+  DirectionsCache,
+  FileDirectionsCacheStore,
+  solutionToGeoJSON,
+  solutionToCSV
+} from './index.js';
+import {
+  ORSDirectionsOptions,
+  SolveOptions,
+  SolveProgress,
+  VroomProblem,
+  VroomSolution
+} from './types.js';
+
+// Exit codes, so batch jobs can tell failures apart
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_VROOM_ERROR = 3;
+const EXIT_UNREACHABLE = 4;
+
+const USAGE = `Usage: vroom-ors <command> <file> [options]
+
+Commands:
+  solve <problem.json>      optimize a VROOM problem
+  evaluate <problem.json>   compute arrivals and violations of fixed routes (vehicle steps)
+  matrix <locations.json>   build duration and distance matrices
+
+Input files hold a VROOM problem (or a request body as posted to /solve) or an
+array of [longitude, latitude] locations (or { locations, orsOptions }). Use - for stdin.
+
+Options:
+      --ors-url <url>         ORS base URL (ORS_BASE_URL, default http://localhost:8080)
+      --ors-key <key>         ORS API key (ORS_API_KEY)
+      --vroom-url <url>       vroom-express endpoint (VROOM_ENDPOINT, default http://localhost:3000)
+  -p, --profile <profile>     ORS profile of vehicles without one (default driving-car)
+      --concurrency <n>       parallel ORS requests (default 10)
+      --cache <file>          keep routed pairs in a directions cache file (DIRECTIONS_CACHE_FILE)
+      --geometry <mode>       eager, lazy or none (default eager)
+      --unreachable <policy>  penalize, fail, estimate or exclude (default penalize)
+  -f, --format <format>       json, geojson or csv (default json; matrices only json or csv)
+  -o, --output <file>         write the result to a file instead of stdout
+  -q, --quiet                 no progress or logging on stderr
+  -h, --help                  show this help
+
+Exit codes: 0 success, 1 error, 2 invalid usage or input, 3 VROOM error,
+4 unreachable location pairs left penalized (the result is still written).`;
+
+const OPTIONS = {
+  'ors-url': { type: 'string' },
+  'ors-key': { type: 'string' },
+  'vroom-url': { type: 'string' },
+  profile: { type: 'string', short: 'p' },
+  concurrency: { type: 'string' },
+  cache: { type: 'string' },
+  geometry: { type: 'string' },
+  unreachable: { type: 'string' },
+  format: { type: 'string', short: 'f', default: 'json' },
+  output: { type: 'string', short: 'o' },
+  quiet: { type: 'boolean', short: 'q', default: false },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+class UsageError extends Error {}
+
+// Reports solve progress on stderr; replaced once the options are parsed
+let progress: (progress: SolveProgress | null) => void = () => {};
+
+async function main(): Promise<number> {
+  config({ quiet: true });
+
+  const { values, positionals } = parseCommandLine();
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const [command, file] = positionals;
+  if (!['solve', 'evaluate', 'matrix'].includes(command) || !file || positionals.length > 2) {
+    throw new UsageError(command ? `Unknown command or missing file: ${positionals.join(' ')}` : 'Missing command');
+  }
+
+  const format = values.format!;
+  if (!['json', 'geojson', 'csv'].includes(format) || (command === 'matrix' && format === 'geojson')) {
+    throw new UsageError(`Unsupported format for ${command}: ${format}`);
+  }
+  if (values.geometry !== undefined && !['eager', 'lazy', 'none'].includes(values.geometry)) {
+    throw new UsageError('--geometry must be one of eager, lazy or none');
+  }
+  if (values.unreachable !== undefined && !['penalize', 'fail', 'estimate', 'exclude'].includes(values.unreachable)) {
+    throw new UsageError('--unreachable must be one of penalize, fail, estimate or exclude');
+  }
+  const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new UsageError('--concurrency must be a positive integer');
+  }
+
+  // stdout only carries the result: logging goes to stderr, or nowhere with --quiet
+  const logger = values.quiet ? { log: () => {}, warn: () => {} } : { log: console.error, warn: console.warn };
+  const cacheFile = values.cache ?? process.env.DIRECTIONS_CACHE_FILE;
+  const cacheStore = cacheFile ? new FileDirectionsCacheStore(cacheFile, undefined, logger) : undefined;
+
+  const vroomOrs = new VroomORS(
+    values['ors-key'] ?? process.env.ORS_API_KEY ?? '',
+    values['vroom-url'] ?? process.env.VROOM_ENDPOINT ?? 'http://localhost:3000',
+    values['ors-url'] ?? process.env.ORS_BASE_URL ?? 'http://localhost:8080',
+    {
+      concurrency,
+      directionsCache: cacheStore && new DirectionsCache({ store: cacheStore, logger }),
+      logger
+    }
+  );
+  const { profiles } = vroomOrs.getProvider();
+  if (values.profile !== undefined && !profiles.includes(values.profile)) {
+    throw new UsageError(`Unknown profile ${values.profile}; one of ${profiles.join(', ')}`);
+  }
+  progress = createProgressReporter(values.quiet!);
+  const input = await readInput(file);
+  let failedPairs = 0;
+  let output: string;
+
+  if (command === 'matrix') {
+    const locations = Array.isArray(input) ? input : input?.locations;
+    if (!Array.isArray(locations) || locations.length === 0) {
+      throw new UsageError('The locations file must hold an array of [longitude, latitude] pairs');
+    }
+    const orsOptions: ORSDirectionsOptions = { ...input?.orsOptions, ...(values.profile && { profile: values.profile }) };
+    const profile = orsOptions.profile || 'driving-car';
+
+    const { cache, ...matrix } = await vroomOrs.getMatrix(
+      locations.map(([lng, lat]: [number, number]) => ({ lat, lng })),
+      orsOptions,
+      {
+        onProgress: (done, total) => progress({ phase: 'building_matrix', profile, done, total }),
+        onPairFailed: () => failedPairs++
+      }
+    );
+    progress(null);
+    output = format === 'csv' ? matrixToCSV(matrix) : JSON.stringify(matrix, null, 2);
+  } else {
+    const body = input?.problem ? input : { problem: input };
+    const problem: VroomProblem = body.problem;
+    if (!Array.isArray(problem?.vehicles) || !Array.isArray(problem.jobs)) {
+      throw new UsageError('The problem file must hold a VROOM problem with vehicles and jobs arrays');
+    }
+    const orsOptions: ORSDirectionsOptions = { ...body.orsOptions, ...(values.profile && { profile: values.profile }) };
+    const solveOptions: SolveOptions = {
+      profileOptions: body.profileOptions,
+      geometry: (values.geometry ?? body.geometry) as SolveOptions['geometry'],
+      unreachable: (values.unreachable ?? body.unreachable) as SolveOptions['unreachable'],
+      instructions: body.instructions === true,
+      solver: body.solver,
+      costModel: body.costModel,
+      vehicleZones: body.vehicleZones,
+      elevation: body.elevation === true,
+      onProgress: progress,
+      onPairFailed: () => failedPairs++
+    };
+
+    const solution: VroomSolution = command === 'solve'
+      ? await vroomOrs.solve(problem, orsOptions, solveOptions)
+      : await vroomOrs.evaluate(problem, orsOptions, solveOptions);
+    progress(null);
+    // Pairs the estimate and exclude policies handled are not failures of the run
+    const policy = solveOptions.unreachable ?? 'penalize';
+    failedPairs = policy === 'penalize' ? solution.unreachable?.length ?? failedPairs : 0;
+
+    output = format === 'geojson' ? JSON.stringify(solutionToGeoJSON(solution, problem), null, 2)
+      : format === 'csv' ? solutionToCSV(solution, problem)
+      : JSON.stringify(solution, null, 2);
+    if (!values.quiet) {
+      const { cost, routes, unassigned } = solution.summary;
+      console.error(`${command === 'solve' ? 'Solved' : 'Evaluated'}: cost ${cost}, ${routes} routes, ${unassigned} unassigned`);
+    }
+  }
+
+  // Pending cache writes would be lost when the process exits
+  await cacheStore?.flush().catch(error => logger.warn(`Failed to write directions cache to ${cacheFile}:`, error));
+
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+
+  if (failedPairs > 0) {
+    console.error(`${failedPairs} location pairs could not be routed`);
+    return EXIT_UNREACHABLE;
+  }
+  return 0;
+}
+
+// parseArgs, reporting unknown or malformed options as usage errors
+function parseCommandLine() {
+  try {
+    return parseArgs({ options: OPTIONS, allowPositionals: true });
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+}
+
+async function readInput(file: string): Promise<any> {
+  let content: string;
+  try {
+    content = file === '-' ? await readStdin() : await readFile(file, 'utf8');
+  } catch (error: any) {
+    throw new UsageError(`Cannot read ${file}: ${error.message}`);
+  }
+  try {
+    return JSON.parse(content);
+  } catch (error: any) {
+    throw new UsageError(`${file} is not valid JSON: ${error.message}`);
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Reports progress on stderr: redrawn in place on a terminal, otherwise a line
+// per phase and at most one per second. null ends the current line.
+function createProgressReporter(quiet: boolean): (progress: SolveProgress | null) => void {
+  const interactive = process.stderr.isTTY;
+  let last = '';
+  let lastWrite = 0;
+  let open = false;
+
+  return progress => {
+    if (quiet) {
+      return;
+    }
+    if (!progress) {
+      if (open) {
+        process.stderr.write('\n');
+        open = false;
+      }
+      return;
+    }
+
+    const phase = [progress.phase.replace(/_/g, ' '), progress.profile].filter(Boolean).join(' ');
+    const counts = progress.total ? ` ${progress.done ?? 0}/${progress.total}` : '';
+    const now = Date.now();
+    if (interactive) {
+      process.stderr.write(`\r\x1b[K${phase}${counts}`);
+      open = true;
+    } else if (phase !== last || now - lastWrite >= 1000 || progress.done === progress.total) {
+      process.stderr.write(`${phase}${counts}\n`);
+      lastWrite = now;
+    }
+    last = phase;
+  };
+}
+
+function matrixToCSV(matrix: { durations: number[][]; distances: number[][] }): string {
+  const rows = ['from,to,duration,distance'];
+  matrix.durations.forEach((row, from) => row.forEach((duration, to) => {
+    rows.push(`${from},${to},${duration},${matrix.distances[from][to]}`);
+  }));
+  return rows.join('\n');
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    progress(null);
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else if (error instanceof InvalidProblemError) {
+      console.error(error.message);
+      process.exitCode = EXIT_USAGE;
+    } else if (error instanceof VroomError) {
+      console.error(error.message);
+      process.exitCode = EXIT_VROOM_ERROR;
+    } else if (error instanceof UnreachablePairsError) {
+      console.error(error.message);
+      process.exitCode = EXIT_UNREACHABLE;
+    } else {
+      console.error(error?.message ?? error);
+      process.exitCode = EXIT_ERROR;
+    }
+  }
+);
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostModel, getTollDistance } from './cost-model.js';
+import { MatrixEntry } from './types.js';
+
+// 10 km in half an hour, 4 km of them on toll roads, 6 km on state roads and 2 km steeply uphill
+const ENTRY: MatrixEntry = {
+  from: 0,
+  to: 1,
+  distance: 10,
+  duration: 1800,
+  extras: {
+    tollways: [{ value: 0, distance: 6 }, { value: 1, distance: 4 }],
+    waytype: [{ value: 1, distance: 6 }, { value: 3, distance: 4 }],
+    steepness: [{ value: 0, distance: 8 }, { value: 3, distance: 2 }]
+  }
+};
+
+test('prices distance and duration, scaled to integers', () => {
+  const model = new CostModel({ perKm: 0.35, perHour: 20 });
+
+  // 3.5 + 10 = 13.5, times 100
+  assert.equal(model.cost(ENTRY), 1350);
+  assert.equal(new CostModel({ perKm: 0.35, scale: 1 }).cost(ENTRY), 4);
+});
+
+test('adds toll, road type and steepness surcharges from extra_info', () => {
+  const model = new CostModel({ perKm: 1, tollPerKm: 0.5, highwayPerKm: 0.1, waytypePerKm: { 3: 0.2 }, steepnessPerKm: { 3: 1 } });
+
+  // 10 + 4 * 0.5 + 6 * 0.1 + 4 * 0.2 + 2 * 1 = 15.4
+  assert.equal(model.cost(ENTRY), 1540);
+  assert.deepEqual(model.extraInfo, ['tollways', 'waytype', 'steepness']);
+});
+
+test('converts distances from the units they were requested in', () => {
+  const model = new CostModel({ perKm: 1, tollPerKm: 0.5 });
+  const meters: MatrixEntry = {
+    ...ENTRY,
+    distance: 10000,
+    extras: { tollways: [{ value: 1, distance: 4000 }] }
+  };
+  const miles: MatrixEntry = {
+    ...ENTRY,
+    distance: 10,
+    extras: { tollways: [{ value: 1, distance: 4 }] }
+  };
+
+  assert.equal(model.cost(meters, 'm'), model.cost(ENTRY, 'km'));
+  assert.equal(model.cost(miles, 'mi'), Math.round(12 * 1.609344 * 100));
+});
+
+test('prices unreachable pairs at the largest cost', () => {
+  const model = new CostModel({ perKm: 1 });
+
+  assert.equal(model.cost({ ...ENTRY, error: 'No route found' }), 999999000);
+  assert.equal(model.cost({ ...ENTRY, distance: Infinity }), 999999000);
+  assert.equal(new CostModel({ perKm: 1e9 }).cost(ENTRY), 999999000);
+});
+
+test('only requests the extra_info its surcharges need', () => {
+  assert.deepEqual(new CostModel({ perKm: 1 }).extraInfo, []);
+  assert.deepEqual(new CostModel({ highwayPerKm: 0.1 }).extraInfo, ['waytype']);
+});
+
+test('sums the distance on toll roads', () => {
+  assert.equal(getTollDistance(ENTRY.extras), 4);
+  assert.equal(getTollDistance({ waytype: [] }), undefined);
+});
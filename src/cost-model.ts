@@ -0,0 +1,75 @@
+import { CostModelOptions, MatrixEntry, ORSDirectionsOptions, RouteExtras } from './types.js';
+
+// ORS waytype value of state roads (motorways and major highways)
+const WAYTYPE_STATE_ROAD = 1;
+// Cost of pairs that could not be routed, kept within VROOM's 32-bit costs
+const UNREACHABLE_COST = 999999000;
+// Kilometers per distance unit ORS can answer in
+const KM_PER_UNIT = { km: 1, m: 0.001, mi: 1.609344 };
+
+/**
+ * Prices each matrix pair from its distance, duration and the ORS extra_info
+ * summaries of its route, so VROOM minimizes operating cost instead of
+ * travel time.
+ */
+export class CostModel {
+  private options: CostModelOptions;
+  private waytypeRates: { [waytype: string]: number };
+  private scale: number;
+
+  constructor(options: CostModelOptions = {}) {
+    this.options = options;
+    this.waytypeRates = {
+      ...(options.highwayPerKm !== undefined && { [WAYTYPE_STATE_ROAD]: options.highwayPerKm }),
+      ...options.waytypePerKm
+    };
+    this.scale = options.scale ?? 100;
+  }
+
+  // The extra_info attributes the surcharges need from ORS directions
+  get extraInfo(): string[] {
+    const extraInfo: string[] = [];
+    if (this.options.tollPerKm) {
+      extraInfo.push('tollways');
+    }
+    if (Object.keys(this.waytypeRates).length > 0) {
+      extraInfo.push('waytype');
+    }
+    if (this.options.steepnessPerKm && Object.keys(this.options.steepnessPerKm).length > 0) {
+      extraInfo.push('steepness');
+    }
+    return extraInfo;
+  }
+
+  // units are those the entry's distances (and extra_info summaries) were requested in
+  cost(entry: MatrixEntry, units: ORSDirectionsOptions['units'] = 'km'): number {
+    if (entry.error || !isFinite(entry.distance) || !isFinite(entry.duration)) {
+      return UNREACHABLE_COST;
+    }
+
+    const { perKm = 0, perHour = 0, tollPerKm = 0, steepnessPerKm = {} } = this.options;
+    const km = KM_PER_UNIT[units];
+    let cost = entry.distance * km * perKm + entry.duration / 3600 * perHour;
+    cost += (getTollDistance(entry.extras) ?? 0) * km * tollPerKm;
+    for (const [waytype, rate] of Object.entries(this.waytypeRates)) {
+      cost += this.distanceWith(entry.extras, 'waytype', value => value === Number(waytype)) * km * rate;
+    }
+    for (const [steepness, rate] of Object.entries(steepnessPerKm)) {
+      cost += this.distanceWith(entry.extras, 'steepness', value => value === Number(steepness)) * km * rate;
+    }
+
+    return Math.min(Math.max(Math.round(cost * this.scale), 0), UNREACHABLE_COST);
+  }
+
+  // Distance of the route whose extra_info value matches, 0 when the attribute is unknown
+  private distanceWith(extras: RouteExtras | undefined, name: string, matches: (value: number) => boolean): number {
+    return (extras?.[name] || [])
+      .filter(item => matches(item.value))
+      .reduce((sum, item) => sum + item.distance, 0);
+  }
+}
+
+// Distance on toll roads along a route, undefined when its tollways are unknown
+export function getTollDistance(extras?: RouteExtras): number | undefined {
+  return extras?.tollways?.filter(item => item.value === 1).reduce((sum, item) => sum + item.distance, 0);
+}
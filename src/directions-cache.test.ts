@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DirectionsCache, DirectionsCacheStore, FileDirectionsCacheStore } from './directions-cache.js';
+import { ORSClient } from './ors-client.js';
+import { CachedDirection } from './types.js';
+
+const FROM = { lat: 49.41, lng: 8.68 };
+const TO = { lat: 49.42, lng: 8.69 };
+
+// A persistent store kept in a Map
+class MapStore implements DirectionsCacheStore {
+  entries = new Map<string, CachedDirection>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, value: CachedDirection) {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+test('expires entries after their time to live, in memory and in the store', async t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const store = new MapStore();
+  const cache = new DirectionsCache({ ttl: 60, store });
+  const key = cache.buildKey(FROM, TO);
+  await cache.set(key, { distance: 1, duration: 60 });
+
+  t.mock.timers.tick(60000);
+  assert.equal((await cache.get(key))?.distance, 1);
+
+  t.mock.timers.tick(1);
+  assert.equal(await cache.get(key), undefined);
+  assert.equal(store.entries.size, 0);
+});
+
+test('never expires entries without a time to live', async t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const cache = new DirectionsCache();
+  const key = cache.buildKey(FROM, TO);
+  await cache.set(key, { distance: 1, duration: 60 });
+
+  t.mock.timers.tick(365 * 24 * 3600 * 1000);
+
+  assert.equal((await cache.get(key))?.distance, 1);
+});
+
+test('evicts the least recently used entry beyond maxEntries', async () => {
+  const cache = new DirectionsCache({ maxEntries: 2 });
+  await cache.set('a', { distance: 1, duration: 1 });
+  await cache.set('b', { distance: 2, duration: 2 });
+  await cache.get('a');
+  await cache.set('c', { distance: 3, duration: 3 });
+
+  assert.equal(await cache.get('b'), undefined);
+  assert.equal((await cache.get('a'))?.distance, 1);
+  assert.equal((await cache.get('c'))?.distance, 3);
+});
+
+test('keys on rounded coordinates and the options that change the route', () => {
+  const cache = new DirectionsCache({ precision: 3 });
+  const key = cache.buildKey(FROM, TO);
+
+  assert.equal(cache.buildKey({ lat: 49.4101, lng: 8.6799 }, TO), key);
+  assert.equal(cache.buildKey(FROM, TO, { geometry: true, instructions: true }), key);
+  assert.notEqual(cache.buildKey(FROM, TO, { profile: 'driving-hgv' }), key);
+  assert.notEqual(cache.buildKey(FROM, TO, { units: 'm' }), key);
+  assert.notEqual(cache.buildKey(FROM, TO, {}, 'osrm'), key);
+});
+
+test('persists entries to a file and reads them back', async t => {
+  const directory = await mkdtemp(path.join(tmpdir(), 'directions-cache-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const filePath = path.join(directory, 'cache.json');
+  const entry = { distance: 1, duration: 60, cached_at: 0 };
+
+  const store = new FileDirectionsCacheStore(filePath);
+  await store.set('a', entry);
+  await store.flush();
+
+  assert.deepEqual(await new FileDirectionsCacheStore(filePath).get('a'), entry);
+});
+
+test('reports unreadable cache files to its logger and starts empty', async t => {
+  const directory = await mkdtemp(path.join(tmpdir(), 'directions-cache-'));
+  t.after(() => rm(directory, { recursive: true, force: true }));
+  const filePath = path.join(directory, 'cache.json');
+  await writeFile(filePath, '{');
+  const warnings: unknown[][] = [];
+  const logger = { log: () => {}, warn: (...args: unknown[]) => warnings.push(args) };
+  const cache = new DirectionsCache({ store: new FileDirectionsCacheStore(filePath, 1000, logger), logger });
+
+  assert.equal(await cache.get('a'), undefined);
+  assert.equal(warnings.length, 1);
+  assert.match(String(warnings[0][0]), /Failed to read directions cache/);
+});
+
+test('refetches entries cached without the requested extra_info and keeps their geometry', async t => {
+  const cache = new DirectionsCache();
+  const client = new ORSClient('key', 'http://ors.test', { cache, logger: { log: () => {}, warn: () => {} } });
+  const key = cache.buildKey(FROM, TO, { extra_info: ['tollways'] });
+  await cache.set(key, { distance: 1, duration: 60, geometry: 'cached', extras: { waytype: [{ value: 1, distance: 1 }] } });
+  const fetchMock = t.mock.method(globalThis, 'fetch', async () => Response.json({
+    routes: [{
+      summary: { distance: 1, duration: 60 },
+      segments: [],
+      extras: { tollways: { values: [[0, 1, 1]], summary: [{ value: 1, distance: 1, amount: 100 }] } }
+    }]
+  }));
+
+  const entries = await client.createMatrix([FROM, TO], { extra_info: ['tollways'] }, false);
+
+  // Only the pair from FROM to TO was cached
+  assert.equal(fetchMock.mock.callCount(), 2);
+  assert.equal(entries.find(entry => entry.from === 0 && entry.to === 1)?.cached, false);
+  const updated = await cache.get(key);
+  assert.equal(updated?.geometry, 'cached');
+  assert.deepEqual(Object.keys(updated!.extras!).sort(), ['tollways', 'waytype']);
+});
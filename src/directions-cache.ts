@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import { Coordinate, Logger, ORSDirectionsOptions, CachedDirection } from './types.js';
+
+export interface DirectionsCacheStore {
+  get(key: string): Promise<CachedDirection | undefined>;
+  set(key: string, value: CachedDirection): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface DirectionsCacheOptions {
+  ttl?: number; // time to live in seconds (0 = never expires)
+  maxEntries?: number; // size of the in-memory LRU
+  precision?: number; // number of decimals coordinates are rounded to
+  store?: DirectionsCacheStore; // optional persistent second tier
+  logger?: Logger; // warnings about store failures (defaults to console)
+}
+
+/**
+ * Persists cached directions as a single JSON file. Entries are kept in memory
+ * once loaded and written back shortly after each change.
+ */
+export class FileDirectionsCacheStore implements DirectionsCacheStore {
+  private filePath: string;
+  private entries: Map<string, CachedDirection> | null = null;
+  private loading: Promise<Map<string, CachedDirection>> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saveDelay: number;
+  private logger: Logger;
+
+  constructor(filePath: string, saveDelay: number = 1000, logger: Logger = console) {
+    this.filePath = filePath;
+    this.saveDelay = saveDelay;
+    this.logger = logger;
+  }
+
+  async get(key: string): Promise<CachedDirection | undefined> {
+    const entries = await this.load();
+    return entries.get(key);
+  }
+
+  async set(key: string, value: CachedDirection): Promise<void> {
+    const entries = await this.load();
+    entries.set(key, value);
+    this.scheduleSave();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    if (entries.delete(key)) {
+      this.scheduleSave();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.entries) {
+      return;
+    }
+    const data = Object.fromEntries(this.entries);
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  private load(): Promise<Map<string, CachedDirection>> {
+    if (this.entries) {
+      return Promise.resolve(this.entries);
+    }
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const content = await fs.readFile(this.filePath, 'utf8');
+          this.entries = new Map(Object.entries(JSON.parse(content)));
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            this.logger.warn(`Failed to read directions cache from ${this.filePath}:`, error);
+          }
+          this.entries = new Map();
+        }
+        return this.entries;
+      })();
+    }
+    return this.loading;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch(error => this.logger.warn(`Failed to write directions cache to ${this.filePath}:`, error));
+    }, this.saveDelay);
+    this.saveTimer.unref();
+  }
+}
+
+/**
+ * Two-tier cache for pairwise directions: an in-memory LRU in front of an
+ * optional persistent store.
+ */
+export class DirectionsCache {
+  private memory = new Map<string, CachedDirection>();
+  private ttl: number;
+  private maxEntries: number;
+  private precision: number;
+  private store?: DirectionsCacheStore;
+  private logger: Logger;
+
+  constructor(options: DirectionsCacheOptions = {}) {
+    this.ttl = options.ttl ?? 0;
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.precision = options.precision ?? 5;
+    this.store = options.store;
+    this.logger = options.logger || console;
+  }
+
+  buildKey(from: Coordinate, to: Coordinate, options: ORSDirectionsOptions = {}, provider: string = 'ors'): string {
+    // Only options that change the resulting route are part of the key
+    const relevant = {
+      ...(provider !== 'ors' && { provider }),
+      profile: options.profile || 'driving-car',
+      preference: options.preference,
+      units: options.units || 'km',
+      maximum_speed: options.maximum_speed,
+      options: options.options
+    };
+    const round = (value: number) => value.toFixed(this.precision);
+    return [
+      JSON.stringify(relevant),
+      `${round(from.lng)},${round(from.lat)}`,
+      `${round(to.lng)},${round(to.lat)}`
+    ].join('|');
+  }
+
+  async get(key: string): Promise<CachedDirection | undefined> {
+    let entry = this.memory.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.memory.delete(key);
+    } else if (this.store) {
+      try {
+        entry = await this.store.get(key);
+      } catch (error) {
+        this.logger.warn('Failed to read from directions cache store:', error);
+      }
+    }
+
+    if (entry && this.isExpired(entry)) {
+      this.memory.delete(key);
+      this.store?.delete(key).catch(() => undefined);
+      entry = undefined;
+    }
+
+    if (entry) {
+      this.remember(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, value: Omit<CachedDirection, 'cached_at'>): Promise<void> {
+    const entry: CachedDirection = { ...value, cached_at: Date.now() };
+    this.remember(key, entry);
+    if (this.store) {
+      try {
+        await this.store.set(key, entry);
+      } catch (error) {
+        this.logger.warn('Failed to write to directions cache store:', error);
+      }
+    }
+  }
+
+  private remember(key: string, entry: CachedDirection): void {
+    this.memory.set(key, entry);
+    while (this.memory.size > this.maxEntries) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private isExpired(entry: CachedDirection): boolean {
+    return this.ttl > 0 && Date.now() - entry.cached_at > this.ttl * 1000;
+  }
+}
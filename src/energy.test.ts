@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import polyline from '@mapbox/polyline';
+import { buildElevationProfile, estimateEnergy } from './energy.js';
+import { ORSClient } from './ors-client.js';
+
+// Encodes [lng, lat, elevation] points the way ORS does with elevation: the
+// polyline algorithm over lat, lng (1e5) and elevation (1e2) triples
+function encodeElevation(points: Array<[number, number, number]>): string {
+  let previous = [0, 0, 0];
+  let encoded = '';
+  for (const [lng, lat, elevation] of points) {
+    const values = [Math.round(lat * 1e5), Math.round(lng * 1e5), Math.round(elevation * 100)];
+    values.forEach((value, k) => {
+      let delta = value - previous[k];
+      delta = delta < 0 ? ~(delta << 1) : delta << 1;
+      while (delta >= 0x20) {
+        encoded += String.fromCharCode((0x20 | (delta & 0x1f)) + 63);
+        delta >>= 5;
+      }
+      encoded += String.fromCharCode(delta + 63);
+    });
+    previous = values;
+  }
+  return encoded;
+}
+
+// Splits routes into requests of two waypoints
+class TwoWaypointClient extends ORSClient {
+  protected maxWaypoints = 2;
+}
+
+const ELEVATIONS: { [lng: number]: number } = { 8.68: 110.5, 8.69: -3.25, 8.7: 240 };
+
+// Answers directions requests with the elevations above and one segment per leg
+async function elevationDirections(_url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const { coordinates } = JSON.parse(init!.body as string) as { coordinates: Array<[number, number]> };
+  const points = coordinates.map(([lng, lat]) => [lng, lat, ELEVATIONS[lng]] as [number, number, number]);
+  return Response.json({
+    routes: [{
+      summary: { distance: 1, duration: 60 },
+      geometry: encodeElevation(points),
+      segments: points.slice(1).map((point, index) => ({
+        distance: 1,
+        duration: 60,
+        ascent: Math.max(point[2] - points[index][2], 0),
+        descent: Math.max(points[index][2] - point[2], 0),
+        steps: []
+      }))
+    }]
+  });
+}
+
+test('decodes ORS polylines with elevation', async t => {
+  t.mock.method(globalThis, 'fetch', elevationDirections);
+  const client = new ORSClient('key', 'http://ors.test');
+
+  const route = await client.getRoute(
+    [{ lat: 49.41, lng: 8.68 }, { lat: 49.42, lng: 8.69 }, { lat: 49.43, lng: 8.7 }],
+    { geometry: true, elevation: true }
+  );
+
+  assert.deepEqual(route.elevation, [[8.68, 49.41, 110.5], [8.69, 49.42, -3.25], [8.7, 49.43, 240]]);
+  // The geometry is re-encoded without elevation
+  assert.deepEqual(polyline.decode(route.geometry!), [[49.41, 8.68], [49.42, 8.69], [49.43, 8.7]]);
+});
+
+test('reads elevation from GeoJSON geometries', async t => {
+  t.mock.method(globalThis, 'fetch', async () => Response.json({
+    routes: [{
+      summary: { distance: 1, duration: 60 },
+      geometry: { type: 'LineString', coordinates: [[8.68, 49.41, 110.5], [8.69, 49.42]] },
+      segments: []
+    }]
+  }));
+  const client = new ORSClient('key', 'http://ors.test');
+
+  const route = await client.getRoute([{ lat: 49.41, lng: 8.68 }, { lat: 49.42, lng: 8.69 }], { geometry: true, elevation: true });
+
+  assert.deepEqual(route.elevation, [[8.68, 49.41, 110.5], [8.69, 49.42, 0]]);
+});
+
+test('joins elevation points across requests without repeating their shared waypoint', async t => {
+  const fetchMock = t.mock.method(globalThis, 'fetch', elevationDirections);
+  const client = new TwoWaypointClient('key', 'http://ors.test');
+
+  const route = await client.getElevationRoute([{ lat: 49.41, lng: 8.68 }, { lat: 49.42, lng: 8.69 }, { lat: 49.43, lng: 8.7 }]);
+
+  assert.equal(fetchMock.mock.callCount(), 2);
+  assert.deepEqual(route.points, [[8.68, 49.41, 110.5], [8.69, 49.42, -3.25], [8.7, 49.43, 240]]);
+  assert.deepEqual(route.segments.map(segment => [segment.ascent, segment.descent]), [[0, 113.75], [243.25, 0]]);
+});
+
+test('measures elevation profiles along the route', () => {
+  // 0.01 degrees of latitude are about 1.112 km
+  const profile = buildElevationProfile([[8.68, 49.41, 100], [8.68, 49.42, 150], [8.68, 49.43, 120]]);
+
+  assert.deepEqual(profile.map(([, elevation]) => elevation), [100, 150, 120]);
+  assert.equal(profile[0][0], 0);
+  assert.ok(Math.abs(profile[1][0] - 1.112) < 0.001);
+  assert.ok(Math.abs(profile[2][0] - 2.224) < 0.001);
+});
+
+test('keeps at most 200 evenly spread profile points, with the first and last', () => {
+  const points = Array.from({ length: 1000 }, (_, index) => [8.68, 49 + index / 1000, index] as [number, number, number]);
+
+  const profile = buildElevationProfile(points);
+
+  assert.equal(profile.length, 200);
+  assert.equal(profile[0][1], 0);
+  assert.equal(profile[199][1], 999);
+  assert.ok(profile.every(([distance], index) => index === 0 || distance > profile[index - 1][0]));
+});
+
+test('estimates energy from distance, climbing and recuperation', () => {
+  // Lifting 1000 kg by 367 m takes about 1 kWh at the wheels; without a mass climbing is free
+  const model = { perKm: 0.2, mass: 1000, efficiency: 0.8, recuperation: 0.5 };
+  const liftKwh = 1000 * 9.81 * 367 / 3.6e6;
+
+  assert.equal(estimateEnergy({ perKm: 0.2 }, 10, 367, 0), 2);
+  assert.ok(Math.abs(estimateEnergy(model, 10, 367, 0) - (2 + liftKwh / 0.8)) < 1e-9);
+  assert.ok(Math.abs(estimateEnergy(model, 10, 0, 367) - (2 - liftKwh * 0.5 * 0.8)) < 1e-9);
+  // Recuperation never makes a stretch produce energy
+  assert.equal(estimateEnergy({ ...model, recuperation: 1 }, 0, 0, 1000), 0);
+});
@@ -0,0 +1,49 @@
+import { ConsumptionModel } from './types.js';
+
+const GRAVITY = 9.81; // m/s²
+const JOULES_PER_KWH = 3.6e6;
+// Most elevation profile points kept per route
+const MAX_PROFILE_POINTS = 200;
+
+/**
+ * Estimates the kWh a vehicle uses over a stretch of road from its distance
+ * in km and the meters climbed and descended. Recuperation never makes a
+ * stretch produce energy.
+ */
+export function estimateEnergy(model: ConsumptionModel, distanceKm: number, ascent: number = 0, descent: number = 0): number {
+  const { perKm, mass = 0, efficiency = 0.85, recuperation = 0 } = model;
+  const climbing = mass * GRAVITY * ascent / JOULES_PER_KWH / efficiency;
+  const recovered = mass * GRAVITY * descent / JOULES_PER_KWH * recuperation * efficiency;
+  return Math.max(distanceKm * perKm + climbing - recovered, 0);
+}
+
+/**
+ * Turns [lng, lat, elevation] points into [distance, elevation] pairs, with
+ * the distance along the route in km, keeping at most MAX_PROFILE_POINTS
+ * evenly spread points (always the first and last).
+ */
+export function buildElevationProfile(points: Array<[number, number, number]>): Array<[number, number]> {
+  const profile: Array<[number, number]> = [];
+  let distance = 0;
+  points.forEach((point, index) => {
+    if (index > 0) {
+      distance += haversine(points[index - 1], point);
+    }
+    profile.push([distance, point[2]]);
+  });
+
+  if (profile.length <= MAX_PROFILE_POINTS) {
+    return profile;
+  }
+  const step = (profile.length - 1) / (MAX_PROFILE_POINTS - 1);
+  return Array.from({ length: MAX_PROFILE_POINTS }, (_, i) => profile[Math.round(i * step)]);
+}
+
+// Great-circle distance in km between [lng, lat] points
+function haversine(from: [number, number, number], to: [number, number, number]): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to[1] - from[1]);
+  const dLng = toRadians(to[0] - from[0]);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from[1])) * Math.cos(toRadians(to[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
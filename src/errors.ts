@@ -0,0 +1,74 @@
+import { UnreachablePair } from './types.js';
+
+// Thrown by VroomORS.solve when the unreachable-pair policy is 'fail'
+export class UnreachablePairsError extends Error {
+  readonly pairs: UnreachablePair[];
+
+  constructor(pairs: UnreachablePair[]) {
+    super(`${pairs.length} location pairs could not be routed: ${pairs.slice(0, 5).map(pair =>
+      `${pair.from_index}->${pair.to_index} (${pair.profile}): ${pair.error}`
+    ).join('; ')}${pairs.length > 5 ? '; ...' : ''}`);
+    this.name = 'UnreachablePairsError';
+    this.pairs = pairs;
+  }
+}
+
+// Thrown by VroomORS when a problem cannot be routed or solved as given, e.g.
+// restrictions on a vehicle that does not route as driving-hgv
+export class InvalidProblemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidProblemError';
+  }
+}
+
+// Thrown by solver backends when VROOM reports an error (code 1: internal, 2: input, 3: routing)
+export class VroomError extends Error {
+  readonly code: number;
+  readonly solver: string;
+
+  constructor(solver: string, code: number, message: string) {
+    super(`VROOM error ${code} (${solver}): ${message}`);
+    this.name = 'VroomError';
+    this.code = code;
+    this.solver = solver;
+  }
+}
+
+// Thrown by routing providers when the service answers 429; retryAfter is in seconds when the response said
+export class RateLimitError extends Error {
+  readonly retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Thrown by the RequestScheduler once the daily request quota is used up
+export class QuotaExceededError extends Error {
+  readonly limit: number;
+  readonly resetsAt: Date;
+
+  constructor(limit: number, resetsAt: Date) {
+    super(`Daily quota of ${limit} requests exhausted, resets at ${resetsAt.toISOString()}`);
+    this.name = 'QuotaExceededError';
+    this.limit = limit;
+    this.resetsAt = resetsAt;
+  }
+}
+
+// Thrown by the TenantRegistry when a request is over its tenant's limits:
+// status 403 for requests no limit can admit, 429 for budgets that free up later
+export class TenantLimitError extends Error {
+  readonly status: 403 | 429;
+  readonly retryAfter?: number; // seconds
+
+  constructor(status: 403 | 429, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'TenantLimitError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
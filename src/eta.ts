@@ -0,0 +1,86 @@
+import { StepEta, VroomProblem, VroomRoute, VroomStep } from './types.js';
+
+// Default seconds of slack below which a time window is reported at risk
+export const DEFAULT_RISK_MARGIN = 600;
+
+/**
+ * The index of the step a vehicle is heading to: the step after its completed
+ * ones, or without a count the first step planned after `time`. The start step
+ * always counts as completed.
+ */
+export function findNextStep(route: VroomRoute, time: number, completedSteps?: number): number {
+  if (completedSteps !== undefined) {
+    return Math.min(Math.max(completedSteps, 1), route.steps.length);
+  }
+  const next = route.steps.findIndex((step, index) => index > 0 && (step.arrival ?? 0) > time);
+  return next < 0 ? route.steps.length : next;
+}
+
+/**
+ * Rolls arrivals forward from `time` over the remaining steps of a route.
+ * `legDurations[k]` is the travel time to step `from + k` from the previous
+ * step, or from the vehicle's position for the first one. Service starts at
+ * the first time window still open on arrival.
+ */
+export function computeStepEtas(
+  route: VroomRoute,
+  problem: VroomProblem,
+  from: number,
+  legDurations: number[],
+  time: number,
+  riskMargin: number = DEFAULT_RISK_MARGIN
+): StepEta[] {
+  const etas: StepEta[] = [];
+  let current = time;
+
+  route.steps.slice(from).forEach((step, k) => {
+    const arrival = current + legDurations[k];
+    const windows = getStepTimeWindows(step, route.vehicle, problem);
+    const window = windows.find(([, end]) => end >= arrival) ?? windows[windows.length - 1];
+    const late = window !== undefined && window[1] < arrival;
+    const serviceStart = window && !late ? Math.max(arrival, window[0]) : arrival;
+    const slack = window ? window[1] - serviceStart : undefined;
+
+    etas.push({
+      step_index: from + k,
+      type: step.type,
+      id: step.id,
+      location: step.location,
+      planned_arrival: step.arrival,
+      arrival: Math.round(arrival),
+      waiting_time: Math.round(serviceStart - arrival),
+      delay: Math.round(arrival - (step.arrival ?? arrival)),
+      time_window: window,
+      slack: slack !== undefined ? Math.round(slack) : undefined,
+      at_risk: late || (slack !== undefined && slack < riskMargin),
+      late
+    });
+
+    current = serviceStart + (step.setup ?? 0) + (step.service ?? 0);
+  });
+
+  return etas;
+}
+
+// Time windows of the task (or the vehicle, for its end) a step serves; empty when unconstrained
+function getStepTimeWindows(step: VroomStep, vehicleId: number, problem: VroomProblem): Array<[number, number]> {
+  if (step.type === 'end') {
+    const vehicle = problem.vehicles.find(v => v.id === vehicleId);
+    return vehicle?.time_window ? [vehicle.time_window] : [];
+  }
+
+  if (step.type === 'job') {
+    return problem.jobs.find(job => job.id === step.id)?.time_windows || [];
+  }
+
+  if (step.type === 'pickup' || step.type === 'delivery') {
+    for (const shipment of problem.shipments || []) {
+      const task = step.type === 'pickup' ? shipment.pickup : shipment.delivery;
+      if (task?.id === step.id) {
+        return task?.time_windows || [];
+      }
+    }
+  }
+
+  return [];
+}
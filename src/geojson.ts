@@ -0,0 +1,64 @@
+import { VroomProblem, VroomSolution, GeoJSONFeature, GeoJSONFeatureCollection } from './types.js';
+import { decodeGeometry, findStepTask } from './solution-utils.js';
+
+/**
+ * Converts a solution into a GeoJSON FeatureCollection with one LineString per
+ * route and one Point per step. Routes without a stitched geometry get a null
+ * geometry. Passing the original problem adds shipment ids and descriptions.
+ */
+export function solutionToGeoJSON(solution: VroomSolution, problem?: VroomProblem): GeoJSONFeatureCollection {
+  const features: GeoJSONFeature[] = [];
+
+  for (const route of solution.routes || []) {
+    const vehicle = problem?.vehicles.find(v => v.id === route.vehicle);
+
+    features.push({
+      type: 'Feature',
+      geometry: route.geometry
+        ? { type: 'LineString', coordinates: decodeGeometry(route.geometry) }
+        : null,
+      properties: {
+        feature_type: 'route',
+        vehicle: route.vehicle,
+        ...(vehicle?.description && { description: vehicle.description }),
+        cost: route.cost,
+        setup: route.setup,
+        service: route.service,
+        duration: route.duration,
+        waiting_time: route.waiting_time,
+        priority: route.priority,
+        distance: route.distance,
+        steps: route.steps.length
+      }
+    });
+
+    route.steps.forEach((step, index) => {
+      if (!step.location) {
+        return;
+      }
+
+      const task = findStepTask(step, problem);
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: step.location },
+        properties: {
+          feature_type: 'step',
+          vehicle: route.vehicle,
+          step_index: index,
+          type: step.type,
+          ...(step.id !== undefined && (step.type === 'job' ? { job: step.id } : { task: step.id })),
+          ...(task?.shipment !== undefined && { shipment: task.shipment }),
+          ...(task?.description && { description: task.description }),
+          arrival: step.arrival,
+          duration: step.duration,
+          distance: step.distance,
+          setup: step.setup,
+          service: step.service,
+          waiting_time: step.waiting_time
+        }
+      });
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,147 @@
+import { Coordinate, ORSDirectionsOptions, ORSSegment } from './types.js';
+import { BaseRoutingProvider, ProviderRoute, ProviderTable, RoutingProviderOptions } from './routing-provider.js';
+
+const DEFAULT_PROFILES: { [profile: string]: string } = {
+  'driving-car': 'car',
+  'driving-hgv': 'truck',
+  'cycling-regular': 'bike',
+  'cycling-road': 'racingbike',
+  'cycling-mountain': 'mtb',
+  'cycling-electric': 'bike',
+  'foot-walking': 'foot',
+  'foot-hiking': 'hike',
+  'wheelchair': 'foot'
+};
+
+// GraphHopper instruction signs to ORS instruction types
+const SIGN_TYPES: { [sign: number]: number } = {
+  [-3]: 2, [-2]: 0, [-1]: 4, 0: 6, 1: 5, 2: 1, 3: 3,
+  4: 10, 5: 10, 6: 7, [-6]: 8, [-7]: 12, 7: 13, [-98]: 9
+};
+
+// Signs ending a leg: via point reached and finish
+const VIA_REACHED = 5;
+const FINISH = 4;
+
+/**
+ * Routing provider for the GraphHopper routing and matrix APIs. Times are
+ * returned in milliseconds and converted to seconds. ORS routing options
+ * (avoid_features, vehicle_type, ...) are ignored.
+ */
+export class GraphHopperClient extends BaseRoutingProvider {
+  readonly name = 'graphhopper';
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string = 'https://graphhopper.com/api/1', apiKey?: string, options: RoutingProviderOptions = {}) {
+    super(options, DEFAULT_PROFILES);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async getRoute(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    signal?: AbortSignal
+  ): Promise<ProviderRoute> {
+    if (this.isOffline) {
+      throw new Error('GraphHopper routing is not available in offline mode');
+    }
+
+    const { profile = 'driving-car', units = 'km', geometry = false, instructions = false } = options;
+    // Per-leg totals are only available by splitting the instructions at via points
+    const needsInstructions = instructions || coordinates.length > 2;
+
+    const data = await this.request('/route', {
+      points: coordinates.map(coord => [coord.lng, coord.lat]),
+      profile: this.mapProfile(profile),
+      points_encoded: true,
+      instructions: needsInstructions,
+      calc_points: geometry || needsInstructions
+    }, signal);
+
+    if (!data.paths?.length) {
+      throw new Error('No route found');
+    }
+
+    const path = data.paths[0];
+    const segments: ORSSegment[] = [];
+    if (needsInstructions) {
+      let current: ORSSegment = { distance: 0, duration: 0, steps: [] };
+      for (const instruction of path.instructions || []) {
+        current.distance += this.fromMeters(instruction.distance, units);
+        current.duration += instruction.time / 1000;
+        current.steps.push({
+          instruction: instruction.text,
+          distance: this.fromMeters(instruction.distance, units),
+          duration: instruction.time / 1000,
+          type: SIGN_TYPES[instruction.sign],
+          name: instruction.street_name,
+          way_points: instruction.interval
+        });
+        if (instruction.sign === VIA_REACHED || instruction.sign === FINISH) {
+          segments.push(current);
+          current = { distance: 0, duration: 0, steps: [] };
+        }
+      }
+      if (!instructions) {
+        segments.forEach(segment => segment.steps = []);
+      }
+    } else {
+      segments.push({ distance: this.fromMeters(path.distance, units), duration: path.time / 1000, steps: [] });
+    }
+
+    return {
+      distance: this.fromMeters(path.distance, units),
+      duration: path.time / 1000,
+      geometry: geometry ? path.points : undefined,
+      segments
+    };
+  }
+
+  protected async getTable(
+    locations: Coordinate[],
+    sources: number[],
+    destinations: number[],
+    options: ORSDirectionsOptions,
+    signal?: AbortSignal
+  ): Promise<ProviderTable> {
+    const { profile = 'driving-car', units = 'km' } = options;
+    const toPoint = (index: number) => [locations[index].lng, locations[index].lat];
+
+    const data = await this.request('/matrix', {
+      from_points: sources.map(toPoint),
+      to_points: destinations.map(toPoint),
+      profile: this.mapProfile(profile),
+      out_arrays: ['times', 'distances'],
+      fail_fast: false
+    }, signal);
+
+    return {
+      durations: data.times || [],
+      distances: (data.distances || []).map((row: Array<number | null>) =>
+        row.map(distance => distance == null ? null : this.fromMeters(distance, units))
+      )
+    };
+  }
+
+  private async request(path: string, body: any, signal?: AbortSignal): Promise<any> {
+    const query = this.apiKey ? `?key=${encodeURIComponent(this.apiKey)}` : '';
+    const response = await fetch(`${this.baseUrl}${path}${query}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`GraphHopper API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,35 @@
+import { VroomProblem, VroomSolution, VroomSolveOptions } from './types.js';
+import { VroomSolver, parseVroomOutput, withTimeout } from './solver.js';
+
+// Extra seconds allowed on top of the solving time limit for transfer and parsing
+const TIMEOUT_GRACE = 30;
+
+/**
+ * Posts problems to a vroom-express server. vroom-express takes its threads
+ * and exploration level from its own configuration, so only the timeout is
+ * applied here, as a deadline on the request.
+ */
+export class VroomHttpSolver implements VroomSolver {
+  readonly name = 'http';
+  private endpoint: string;
+
+  constructor(endpoint: string = 'http://localhost:3000') {
+    this.endpoint = endpoint;
+  }
+
+  async solve(problem: VroomProblem, options: VroomSolveOptions = {}, signal?: AbortSignal): Promise<VroomSolution> {
+    const timeout = options.timeout !== undefined ? options.timeout + TIMEOUT_GRACE : undefined;
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(problem),
+      signal: withTimeout(signal, timeout)
+    });
+
+    return parseVroomOutput(this.name, await response.text(), response.ok ? undefined : `HTTP ${response.status}`);
+  }
+}
@@ -1,3 +1,33 @@
 export { VroomORS } from './vroom-ors.js';
+export type { VroomORSOptions } from './vroom-ors.js';
 export { ORSClient } from './ors-client.js';
+export type { ORSClientOptions } from './ors-client.js';
+export { BaseRoutingProvider } from './routing-provider.js';
+export type { RoutingProvider, RoutingProviderOptions, ProviderRoute, ProviderTable, ElevationRoute } from './routing-provider.js';
+export { OSRMClient } from './osrm-client.js';
+export type { OSRMClientOptions } from './osrm-client.js';
+export { ValhallaClient } from './valhalla-client.js';
+export { GraphHopperClient } from './graphhopper-client.js';
+export { StraightLineEstimator } from './straight-line-estimator.js';
+export type { StraightLineEstimatorOptions, StraightLineEstimate } from './straight-line-estimator.js';
+export { UnreachablePairsError, InvalidProblemError, VroomError, RateLimitError, QuotaExceededError, TenantLimitError } from './errors.js';
+export { RequestScheduler } from './request-scheduler.js';
+export { Metrics } from './metrics.js';
+export type { RequestSchedulerOptions, SchedulerUsage } from './request-scheduler.js';
+export type { VroomSolver } from './solver.js';
+export { VroomHttpSolver } from './http-solver.js';
+export { VroomBinarySolver } from './binary-solver.js';
+export type { VroomBinarySolverOptions } from './binary-solver.js';
+export { ORSOptimizationSolver } from './ors-optimization-solver.js';
+export { DirectionsCache, FileDirectionsCacheStore } from './directions-cache.js';
+export type { DirectionsCacheStore, DirectionsCacheOptions } from './directions-cache.js';
+export { SolveJobManager } from './solve-jobs.js';
+export { RestrictedZoneStore } from './zone-store.js';
+export { TenantRegistry } from './tenant-registry.js';
+export { SolutionHistory, FileSolutionStore, compareSolutions } from './solution-history.js';
+export type { SolutionStore, SolutionListFilter } from './solution-history.js';
+export { solutionToGeoJSON } from './geojson.js';
+export { solutionToGPX, solutionToKML, solutionToCSV } from './route-export.js';
+export type { RouteExportOptions } from './route-export.js';
+export type { SolveJob, SolveJobState, SolveJobManagerOptions, SolveJobSubmitOptions } from './solve-jobs.js';
 export * from './types.js';
\ No newline at end of file
@@ -0,0 +1,142 @@
+type Labels = Record<string, string | number>;
+
+// Seconds
+const REQUEST_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const BUILD_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+// Locations per matrix, unassigned tasks per solution
+const SIZE_BUCKETS = [2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500];
+const UNASSIGNED_BUCKETS = [0, 1, 2, 5, 10, 25, 50, 100];
+
+// Label set in exposition format, e.g. status="200",profile="driving-car"
+function formatLabels(labels: Labels): string {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+function series(name: string, labels: string): string {
+  return labels ? `${name}{${labels}}` : name;
+}
+
+// A counter, or a gauge when values may go down
+class Counter {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string, private type: 'counter' | 'gauge' = 'counter') {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...Array.from(this.values, ([labels, value]) => `${series(this.name, labels)} ${value}`)
+    ];
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let histogram = this.values.get(key);
+    if (!histogram) {
+      histogram = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, histogram);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        histogram!.buckets[index]++;
+      }
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [labels, { buckets, sum, count }] of this.values) {
+      const prefix = labels ? `${labels},` : '';
+      this.bounds.forEach((bound, index) => lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${buckets[index]}`));
+      lines.push(
+        `${this.name}_bucket{${prefix}le="+Inf"} ${count}`,
+        `${series(`${this.name}_sum`, labels)} ${sum}`,
+        `${series(`${this.name}_count`, labels)} ${count}`
+      );
+    }
+    return lines;
+  }
+}
+
+/**
+ * Counters and histograms for routing and solving, rendered in the
+ * Prometheus text format. Routing providers and VroomORS record into the
+ * instance they are given; nothing is recorded without one.
+ */
+export class Metrics {
+  private orsRequests = new Counter('vroom_ors_ors_requests_total', 'ORS requests by endpoint, profile and response status');
+  private orsRequestDuration = new Histogram('vroom_ors_ors_request_duration_seconds', 'ORS request latency by endpoint', REQUEST_BUCKETS);
+  private retries = new Counter('vroom_ors_routing_retries_total', 'Routing requests retried after a rate limit, by provider');
+  private backoff = new Counter('vroom_ors_routing_backoff_seconds_total', 'Seconds spent backing off before retries, by provider');
+  private matrixLocations = new Histogram('vroom_ors_matrix_locations', 'Locations per matrix built, by provider', SIZE_BUCKETS);
+  private matrixPairs = new Counter('vroom_ors_matrix_pairs_total', 'Matrix entries built, by provider');
+  private matrixDuration = new Histogram('vroom_ors_matrix_build_duration_seconds', 'Time to build one matrix, by provider', BUILD_BUCKETS);
+  private vroomSolves = new Counter('vroom_ors_vroom_solves_total', 'VROOM runs by solver and result code (0 is success, error is a failed request)');
+  private vroomDuration = new Histogram('vroom_ors_vroom_solve_duration_seconds', 'VROOM solve latency by solver', BUILD_BUCKETS);
+  private unassigned = new Histogram('vroom_ors_unassigned_tasks', 'Unassigned jobs and shipments per solution', UNASSIGNED_BUCKETS);
+  private inFlight = new Counter('vroom_ors_solves_in_flight', 'Solves in progress by operation', 'gauge');
+
+  // status is the HTTP status, or 'error' when no response arrived
+  recordOrsRequest(endpoint: string, profile: string, status: number | string, seconds: number): void {
+    this.orsRequests.inc({ endpoint, profile, status });
+    this.orsRequestDuration.observe({ endpoint }, seconds);
+  }
+
+  recordRetry(provider: string, delaySeconds: number): void {
+    this.retries.inc({ provider });
+    this.backoff.inc({ provider }, delaySeconds);
+  }
+
+  recordMatrix(provider: string, locations: number, pairs: number, seconds: number): void {
+    this.matrixLocations.observe({ provider }, locations);
+    this.matrixPairs.inc({ provider }, pairs);
+    this.matrixDuration.observe({ provider }, seconds);
+  }
+
+  recordVroomSolve(solver: string, code: number | string, seconds: number): void {
+    this.vroomSolves.inc({ solver, code });
+    this.vroomDuration.observe({ solver }, seconds);
+  }
+
+  recordUnassigned(count: number): void {
+    this.unassigned.observe({}, count);
+  }
+
+  // Counts a solve as in flight until the returned function is called
+  startSolve(operation: string): () => void {
+    this.inFlight.inc({ operation });
+    return () => this.inFlight.inc({ operation }, -1);
+  }
+
+  render(): string {
+    return [
+      this.orsRequests,
+      this.orsRequestDuration,
+      this.retries,
+      this.backoff,
+      this.matrixLocations,
+      this.matrixPairs,
+      this.matrixDuration,
+      this.vroomSolves,
+      this.vroomDuration,
+      this.unassigned,
+      this.inFlight
+    ].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+}
@@ -1,28 +1,69 @@
-import { Coordinate, ORSDirectionsOptions, ORSDirectionsResponse, MatrixEntry } from './types.js';
-
-export class ORSClient {
+import {
+  Coordinate,
+  ORSDirectionsOptions,
+  ORSDirectionsResponse,
+  ORSMatrixResponse
+} from './types.js';
+import { BaseRoutingProvider, ProviderRoute, ProviderTable, RoutingProviderOptions } from './routing-provider.js';
+import { RestrictedZoneStore } from './zone-store.js';
+import { RateLimitError } from './errors.js';
+import polyline from '@mapbox/polyline';
+
+const ORS_PROFILES: Array<NonNullable<ORSDirectionsOptions['profile']>> = [
+  'driving-car',
+  'driving-hgv',
+  'cycling-regular',
+  'cycling-road',
+  'cycling-mountain',
+  'cycling-electric',
+  'foot-walking',
+  'foot-hiking',
+  'wheelchair',
+  'public-transport'
+];
+
+export interface ORSClientOptions extends RoutingProviderOptions {
+  zones?: RestrictedZoneStore; // resolves avoid_zones names to polygons
+}
+
+export class ORSClient extends BaseRoutingProvider {
+  readonly name = 'ors';
   private baseUrl: string;
   private apiKey: string;
+  private zones?: RestrictedZoneStore;
 
-  constructor(apiKey: string, baseUrl: string = 'https://api.openrouteservice.org') {
+  constructor(apiKey: string, baseUrl: string = 'https://api.openrouteservice.org', options: ORSClientOptions = {}) {
+    super(options);
     this.apiKey = apiKey;
     this.baseUrl = baseUrl;
+    this.zones = options.zones;
+  }
+
+  // ORS profiles, and the names profileMap renames
+  get profiles(): string[] {
+    return Array.from(new Set([...ORS_PROFILES, ...Object.keys(this.profileMap)]));
   }
 
   async getDirections(
     coordinates: Coordinate[],
-    options: ORSDirectionsOptions = {}
+    options: ORSDirectionsOptions = {},
+    signal?: AbortSignal
   ): Promise<ORSDirectionsResponse> {
+    if (this.isOffline) {
+      throw new Error('ORS directions are not available in offline mode');
+    }
+
     const {
       profile = 'driving-car',
       format = 'json',
       units = 'km',
       geometry = false,
       instructions = false,
+      instructions_format,
       elevation = false,
       extra_info = [],
       options: routeOptions = {}
-    } = options;
+    } = this.resolveOptions(options);
 
     const coordinatesArray = coordinates.map(coord => [coord.lng, coord.lat]);
 
@@ -32,260 +73,175 @@ export class ORSClient {
       units,
       geometry,
       instructions,
+      ...(instructions_format && { instructions_format }),
       elevation,
       extra_info,
       options: routeOptions
     };
 
-    const response = await fetch(`${this.baseUrl}/v2/directions/${profile}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': this.apiKey,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(body)
-    });
+    return this.post('directions', profile, body, signal);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`ORS API error: ${response.status} - ${errorText}`);
+  async getRoute(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    signal?: AbortSignal
+  ): Promise<ProviderRoute> {
+    const directions = await this.getDirections(coordinates, options, signal);
+
+    if (!directions.routes || directions.routes.length === 0) {
+      throw new Error('No route found');
     }
 
-    return response.json();
+    const route = directions.routes[0];
+    const elevation = options.geometry && options.elevation ? this.extractElevation(route.geometry) : undefined;
+    return {
+      distance: route.summary.distance,
+      duration: route.summary.duration,
+      geometry: elevation
+        ? polyline.encode(elevation.map(([lng, lat]) => [lat, lng]))
+        : options.geometry ? this.extractPolyline(route.geometry) : undefined,
+      elevation,
+      segments: route.segments || [],
+      extras: route.extras && Object.fromEntries(Object.entries(route.extras).map(([name, extra]) =>
+        [name, extra.summary.map(({ value, distance }) => ({ value, distance }))]
+      ))
+    };
   }
 
-  async createMatrix(
+  /**
+   * Uses the ORS /v2/matrix endpoint, which returns many durations and
+   * distances per request but no geometry.
+   */
+  protected async getTable(
     locations: Coordinate[],
-    options: ORSDirectionsOptions = {}
-  ): Promise<MatrixEntry[]> {
-    const thunks: Array<() => Promise<MatrixEntry>> = [];
+    sources: number[],
+    destinations: number[],
+    options: ORSDirectionsOptions,
+    signal?: AbortSignal
+  ): Promise<ProviderTable> {
+    const { profile = 'driving-car', units = 'km' } = options;
+
+    const matrix: ORSMatrixResponse = await this.post('matrix', profile, {
+      locations: locations.map(coord => [coord.lng, coord.lat]),
+      sources,
+      destinations,
+      metrics: ['distance', 'duration'],
+      units
+    }, signal);
+    return {
+      durations: matrix.durations || [],
+      distances: matrix.distances || []
+    };
+  }
 
-    // Create all direction requests as thunks (functions returning promises)
-    for (let i = 0; i < locations.length; i++) {
-      for (let j = 0; j < locations.length; j++) {
-        if (i === j) {
-          // Same location - add zero distance/duration entry
-          thunks.push(() => Promise.resolve({
-            from: i,
-            to: j,
-            distance: 0,
-            duration: 0,
-            geometry: undefined
-          }));
-        } else {
-          // Different locations - create ORS request
-          thunks.push(() => this.getDirectionEntry(locations[i], locations[j], i, j, options));
-        }
-      }
+  // Posts to an ORS v2 endpoint, recording the request's status and latency
+  private async post<T>(endpoint: 'directions' | 'matrix', profile: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const started = performance.now();
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v2/${endpoint}/${this.mapProfile(profile)}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': this.apiKey,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      this.metrics?.recordOrsRequest(endpoint, profile, 'error', (performance.now() - started) / 1000);
+      throw error;
     }
+    this.metrics?.recordOrsRequest(endpoint, profile, response.status, (performance.now() - started) / 1000);
 
-    // Execute all requests in parallel with controlled concurrency
-    const matrix = await this.executeWithConcurrency(thunks, 10); // Limit to 10 concurrent requests
-
-    return matrix;
+    if (!response.ok) {
+      throw await this.responseError(response);
+    }
+    return response.json() as Promise<T>;
   }
 
-  private async getMatrixBatch(
-    fromLocations: Coordinate[],
-    toLocations: Coordinate[],
-    fromOffset: number,
-    toOffset: number,
-    options: ORSDirectionsOptions
-  ): Promise<MatrixEntry[]> {
-    const entries: MatrixEntry[] = [];
-
-    for (let i = 0; i < fromLocations.length; i++) {
-      for (let j = 0; j < toLocations.length; j++) {
-        if (fromOffset + i === toOffset + j) {
-          entries.push({
-            from: fromOffset + i,
-            to: toOffset + j,
-            distance: 0,
-            duration: 0
-          });
-          continue;
-        }
-
-        try {
-          const directionsOptions = {
-            ...options,
-            geometry: true, // Enable geometry collection
-            geometry_format: 'polyline' // Request encoded polyline format
-          };
-
-          const directions = await this.getDirectionsWithRetry(
-            [fromLocations[i], toLocations[j]],
-            directionsOptions
-          );
-
-          if (directions.routes && directions.routes.length > 0) {
-            const route = directions.routes[0];
-
-            // Extract polyline string from geometry
-            let polyline: string | undefined = undefined;
-            if (route.geometry) {
-              if (typeof route.geometry === 'string') {
-                polyline = route.geometry;
-              } else if (route.geometry.coordinates) {
-                // GeoJSON format - convert to polyline or handle differently
-                polyline = JSON.stringify(route.geometry.coordinates);
-              } else if (route.geometry.polyline) {
-                polyline = route.geometry.polyline;
-              }
-            }
-
-            entries.push({
-              from: fromOffset + i,
-              to: toOffset + j,
-              distance: route.summary.distance,
-              duration: route.summary.duration,
-              geometry: polyline
-            });
-          } else {
-            entries.push({
-              from: fromOffset + i,
-              to: toOffset + j,
-              distance: 999999, // 999,999 km - unreachably far
-              duration: 999999,   // 999,999 seconds - about 11.5 days
-              geometry: undefined
-            });
-          }
-
-          await this.delay(1000); // Increase delay to 1 second to respect rate limits
-        } catch (error) {
-          console.warn(`Failed to get directions from ${fromOffset + i} to ${toOffset + j}:`, error);
-          // Use large finite values instead of Infinity
-          entries.push({
-            from: fromOffset + i,
-            to: toOffset + j,
-            distance: 999999, // 999,999 km - unreachably far
-            duration: 999999,   // 999,999 seconds - about 11.5 days
-            geometry: undefined
-          });
-        }
-      }
+  // The error for a failed response; a 429 becomes a RateLimitError with the Retry-After seconds
+  private async responseError(response: Response): Promise<Error> {
+    const message = `ORS API error: ${response.status} - ${await response.text()}`;
+    if (response.status !== 429) {
+      return new Error(message);
     }
-
-    return entries;
+    // Retry-After is either a number of seconds or an HTTP date
+    const retryAfter = response.headers.get('retry-after');
+    const seconds = retryAfter === null ? NaN
+      : /^\d+$/.test(retryAfter.trim()) ? Number(retryAfter) : (Date.parse(retryAfter) - Date.now()) / 1000;
+    return new RateLimitError(message, isNaN(seconds) ? undefined : Math.max(seconds, 0));
   }
 
-  private async getDirectionsWithRetry(
-    coordinates: Coordinate[],
-    options: ORSDirectionsOptions,
-    maxRetries: number = 3
-  ): Promise<ORSDirectionsResponse> {
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        return await this.getDirections(coordinates, options);
-      } catch (error: any) {
-        if (error.message?.includes('429') || error.message?.includes('Rate Limit')) {
-          if (attempt < maxRetries) {
-            const delay = Math.pow(2, attempt) * 2000; // Exponential backoff: 2s, 4s, 8s
-            console.warn(`Rate limit hit, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries + 1})`);
-            await this.delay(delay);
-            continue;
-          }
-        }
-        throw error;
-      }
+  // Merges the named restricted zones into options.avoid_polygons
+  protected resolveOptions(options: ORSDirectionsOptions): ORSDirectionsOptions {
+    const { avoid_zones: zoneNames, ...rest } = options;
+    if (!zoneNames?.length) {
+      return rest;
     }
-    throw new Error('Max retries exceeded');
+    if (!this.zones) {
+      throw new Error('Restricted zones are not configured');
+    }
+    return {
+      ...rest,
+      options: {
+        ...rest.options,
+        avoid_polygons: this.zones.toAvoidPolygons(zoneNames, rest.options?.avoid_polygons)
+      }
+    };
   }
 
-  private async getDirectionEntry(
-    from: Coordinate,
-    to: Coordinate,
-    fromIndex: number,
-    toIndex: number,
-    options: ORSDirectionsOptions
-  ): Promise<MatrixEntry> {
-    try {
-      const directionsOptions = {
-        ...options,
-        geometry: true, // Enable geometry collection
-        geometry_format: 'polyline' // Request encoded polyline format
-      };
-
-      const directions = await this.getDirectionsWithRetry([from, to], directionsOptions);
-
-      if (directions.routes && directions.routes.length > 0) {
-        const route = directions.routes[0];
-
-        // Extract polyline string from geometry
-        let polyline: string | undefined = undefined;
-        if (route.geometry) {
-          if (typeof route.geometry === 'string') {
-            polyline = route.geometry;
-          } else if (route.geometry.coordinates) {
-            // GeoJSON format - convert to polyline or handle differently
-            polyline = JSON.stringify(route.geometry.coordinates);
-          } else if (route.geometry.polyline) {
-            polyline = route.geometry.polyline;
-          }
-        }
+  // The matrix endpoint does not support routing options (avoid_features, vehicle_type, ...)
+  protected supportsTableOptions(options: ORSDirectionsOptions): boolean {
+    return !options.options || Object.keys(options.options).length === 0;
+  }
 
-        return {
-          from: fromIndex,
-          to: toIndex,
-          distance: route.summary.distance,
-          duration: route.summary.duration,
-          geometry: polyline
-        };
-      } else {
-        return {
-          from: fromIndex,
-          to: toIndex,
-          distance: 999999, // 999,999 km - unreachably far
-          duration: 999999,   // 999,999 seconds - about 11.5 days
-          geometry: undefined
-        };
-      }
-    } catch (error) {
-      console.warn(`Failed to get directions from ${fromIndex} to ${toIndex}:`, error);
-      return {
-        from: fromIndex,
-        to: toIndex,
-        distance: 999999, // 999,999 km - unreachably far
-        duration: 999999,   // 999,999 seconds - about 11.5 days
-        geometry: undefined
-      };
+  // Reads 3D route points as [lng, lat, elevation] from a GeoJSON geometry or
+  // an ORS polyline with elevation (a third delta-encoded value in centimeters)
+  private extractElevation(geometry: any): Array<[number, number, number]> | undefined {
+    if (geometry?.coordinates) {
+      return geometry.coordinates.map(([lng, lat, elevation]: number[]) => [lng, lat, elevation ?? 0]);
+    }
+    if (typeof geometry !== 'string') {
+      return undefined;
     }
-  }
 
-  private async executeWithConcurrency<T>(
-    thunks: Array<() => Promise<T>>,
-    concurrency: number
-  ): Promise<T[]> {
-    const results: T[] = [];
+    const points: Array<[number, number, number]> = [];
+    const values = [0, 0, 0];
     let index = 0;
-
-    async function worker() {
-      while (true) {
-        let currentIndex: number;
-        // Atomically get the next thunk index
-        if (index < thunks.length) {
-          currentIndex = index++;
-        } else {
-          break;
-        }
-        try {
-          const result = await thunks[currentIndex]();
-          results[currentIndex] = result;
-        } catch (e) {
-          // On error, assign undefined (or you could throw, or use a default value)
-          results[currentIndex] = undefined as unknown as T;
-        }
+    while (index < geometry.length) {
+      for (let k = 0; k < 3; k++) {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+          byte = geometry.charCodeAt(index++) - 63;
+          result |= (byte & 0x1f) << shift;
+          shift += 5;
+        } while (byte >= 0x20);
+        values[k] += (result & 1) ? ~(result >> 1) : (result >> 1);
       }
+      points.push([values[1] / 1e5, values[0] / 1e5, values[2] / 100]);
     }
-
-    // Start up to 'concurrency' workers
-    const workers = Array.from({ length: concurrency }, () => worker());
-    await Promise.all(workers);
-    return results;
+    return points;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private extractPolyline(geometry: any): string | undefined {
+    if (!geometry) {
+      return undefined;
+    }
+    if (typeof geometry === 'string') {
+      return geometry;
+    }
+    if (geometry.coordinates) {
+      // GeoJSON format - convert to polyline or handle differently
+      return JSON.stringify(geometry.coordinates);
+    }
+    if (geometry.polyline) {
+      return geometry.polyline;
+    }
+    return undefined;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+import { VroomProblem, VroomSolution, VroomSolveOptions } from './types.js';
+import { VroomSolver, parseVroomOutput, withTimeout } from './solver.js';
+import { RequestScheduler } from './request-scheduler.js';
+
+// Extra seconds allowed on top of the solving time limit for transfer and parsing
+const TIMEOUT_GRACE = 30;
+
+/**
+ * Solves through the ORS /optimization endpoint, which runs VROOM on the ORS
+ * side and accepts the same problem format, including custom matrices. Like
+ * vroom-express it only honours the timeout, as a deadline on the request.
+ */
+export class ORSOptimizationSolver implements VroomSolver {
+  readonly name = 'ors';
+  private apiKey: string;
+  private baseUrl: string;
+  private scheduler?: RequestScheduler;
+
+  constructor(apiKey: string, baseUrl: string = 'https://api.openrouteservice.org', scheduler?: RequestScheduler) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+    this.scheduler = scheduler; // shares the ORS quota with the routing requests
+  }
+
+  async solve(problem: VroomProblem, options: VroomSolveOptions = {}, signal?: AbortSignal): Promise<VroomSolution> {
+    const timeout = options.timeout !== undefined ? options.timeout + TIMEOUT_GRACE : undefined;
+
+    const request = () => fetch(`${this.baseUrl}/optimization`, {
+      method: 'POST',
+      headers: {
+        'Authorization': this.apiKey,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(problem),
+      signal: withTimeout(signal, timeout)
+    });
+    const response = this.scheduler ? await this.scheduler.schedule(request, 0, signal) : await request();
+
+    return parseVroomOutput(this.name, await response.text(), response.ok ? undefined : `HTTP ${response.status}`);
+  }
+}
@@ -0,0 +1,177 @@
+import polyline from '@mapbox/polyline';
+import { Coordinate, ORSDirectionsOptions, ORSSegment } from './types.js';
+import { BaseRoutingProvider, ProviderRoute, ProviderTable, RoutingProviderOptions } from './routing-provider.js';
+
+const DEFAULT_PROFILES: { [profile: string]: string } = {
+  'driving-car': 'driving',
+  'driving-hgv': 'driving',
+  'cycling-regular': 'cycling',
+  'cycling-road': 'cycling',
+  'cycling-mountain': 'cycling',
+  'cycling-electric': 'cycling',
+  'foot-walking': 'foot',
+  'foot-hiking': 'foot',
+  'wheelchair': 'foot'
+};
+
+// OSRM maneuver modifiers to ORS instruction types
+const MODIFIER_TYPES: { [modifier: string]: number } = {
+  'left': 0,
+  'right': 1,
+  'sharp left': 2,
+  'sharp right': 3,
+  'slight left': 4,
+  'slight right': 5,
+  'straight': 6,
+  'uturn': 9
+};
+
+export interface OSRMClientOptions extends RoutingProviderOptions {
+  tableLimit?: number; // the server's --max-table-size: sources, and destinations, per table request (defaults to 100)
+}
+
+/**
+ * Routing provider for an OSRM server. OSRM has no equivalent of the ORS
+ * routing options (avoid_features, vehicle_type, ...), so they are ignored.
+ */
+export class OSRMClient extends BaseRoutingProvider {
+  readonly name = 'osrm';
+  private baseUrl: string;
+
+  constructor(baseUrl: string = 'http://localhost:5000', options: OSRMClientOptions = {}) {
+    super(options, DEFAULT_PROFILES);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.maxTableLocations = options.tableLimit ?? 100;
+    this.maxTableElements = this.maxTableLocations * this.maxTableLocations;
+  }
+
+  async getRoute(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    signal?: AbortSignal
+  ): Promise<ProviderRoute> {
+    if (this.isOffline) {
+      throw new Error('OSRM routing is not available in offline mode');
+    }
+
+    const { profile = 'driving-car', units = 'km', geometry = false, instructions = false } = options;
+    const params = new URLSearchParams({
+      overview: geometry ? 'full' : 'false',
+      geometries: 'polyline',
+      steps: String(instructions)
+    });
+
+    const data = await this.request(`/route/v1/${this.mapProfile(profile)}/${this.formatCoordinates(coordinates)}?${params}`, signal);
+    if (!data.routes || data.routes.length === 0) {
+      throw new Error('No route found');
+    }
+
+    const route = data.routes[0];
+    let offset = 0;
+    const segments: ORSSegment[] = (route.legs || []).map((leg: any) => ({
+      distance: this.fromMeters(leg.distance, units),
+      duration: leg.duration,
+      steps: (leg.steps || []).map((step: any) => {
+        // The arrive step repeats the final point, which the overview does not
+        const points = step.maneuver?.type === 'arrive' ? 1 : polyline.decode(step.geometry || '').length;
+        const wayPoints = [offset, offset + Math.max(points - 1, 0)];
+        offset = wayPoints[1];
+        return {
+          instruction: this.formatInstruction(step),
+          distance: this.fromMeters(step.distance, units),
+          duration: step.duration,
+          type: this.getInstructionType(step.maneuver),
+          name: step.name,
+          way_points: wayPoints
+        };
+      })
+    }));
+
+    return {
+      distance: this.fromMeters(route.distance, units),
+      duration: route.duration,
+      geometry: geometry ? route.geometry : undefined,
+      segments
+    };
+  }
+
+  protected async getTable(
+    locations: Coordinate[],
+    sources: number[],
+    destinations: number[],
+    options: ORSDirectionsOptions,
+    signal?: AbortSignal
+  ): Promise<ProviderTable> {
+    const { profile = 'driving-car', units = 'km' } = options;
+    // Only the chunk's coordinates are sent: sources first, then destinations
+    const coordinates = [...sources, ...destinations].map(index => locations[index]);
+    const params = new URLSearchParams({
+      annotations: 'duration,distance',
+      sources: sources.map((_, i) => i).join(';'),
+      destinations: destinations.map((_, j) => sources.length + j).join(';')
+    });
+
+    const data = await this.request(`/table/v1/${this.mapProfile(profile)}/${this.formatCoordinates(coordinates)}?${params}`, signal);
+    return {
+      durations: data.durations || [],
+      distances: (data.distances || []).map((row: Array<number | null>) =>
+        row.map(distance => distance == null ? null : this.fromMeters(distance, units))
+      )
+    };
+  }
+
+  private async request(path: string, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: { 'Accept': 'application/json' },
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OSRM API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (data.code && data.code !== 'Ok') {
+      throw new Error(`OSRM API error: ${data.code} - ${data.message || ''}`);
+    }
+    return data;
+  }
+
+  private formatCoordinates(coordinates: Coordinate[]): string {
+    return coordinates.map(coord => `${coord.lng},${coord.lat}`).join(';');
+  }
+
+  private formatInstruction(step: any): string {
+    const { type, modifier } = step.maneuver || {};
+    const onto = step.name ? ` onto ${step.name}` : '';
+    switch (type) {
+      case 'depart':
+        return `Head ${modifier || 'straight'}${onto}`;
+      case 'arrive':
+        return 'Arrive at destination';
+      case 'roundabout':
+      case 'rotary':
+        return `Enter the roundabout and take exit ${step.maneuver.exit ?? 1}${onto}`;
+      default:
+        return modifier ? `Turn ${modifier}${onto}` : `Continue${onto}`;
+    }
+  }
+
+  private getInstructionType(maneuver: any): number | undefined {
+    switch (maneuver?.type) {
+      case 'depart':
+        return 11;
+      case 'arrive':
+        return 10;
+      case 'roundabout':
+      case 'rotary':
+        return 7;
+      case 'exit roundabout':
+      case 'exit rotary':
+        return 8;
+      default:
+        return MODIFIER_TYPES[maneuver?.modifier];
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import polyline from '@mapbox/polyline';
+import { buildRemainingProblem, diffAssignments, mergeLockedSteps } from './reoptimize.js';
+import { VroomORS } from './vroom-ors.js';
+import { BaseRoutingProvider, ProviderRoute, ProviderTable } from './routing-provider.js';
+import { VroomSolver } from './solver.js';
+import { RestrictedZoneStore } from './zone-store.js';
+import { Coordinate, ORSDirectionsOptions, ReoptimizeRequest, VroomProblem, VroomSolution } from './types.js';
+
+const LOCK_SKILL = 1000000000;
+const quiet = { log: () => {}, warn: () => {} };
+
+// Routes along longitudes only: 100 km and an hour per degree. Pairs starting
+// at a longitude listed in failing cannot be routed.
+class LineProvider extends BaseRoutingProvider {
+  readonly name = 'line';
+  routed: Array<[number, number]> = [];
+
+  constructor(private failing: number[] = []) {
+    super({ logger: quiet, concurrency: 1 });
+  }
+
+  async getRoute([from, to]: Coordinate[]): Promise<ProviderRoute> {
+    this.routed.push([from.lng, to.lng]);
+    if (this.failing.includes(from.lng)) {
+      throw new Error('No route found');
+    }
+    const degrees = Math.abs(to.lng - from.lng);
+    return { distance: degrees * 100, duration: degrees * 3600, segments: [] };
+  }
+
+  protected async getTable(): Promise<ProviderTable> {
+    throw new Error('No table endpoint');
+  }
+
+  protected supportsTableOptions(): boolean {
+    return false;
+  }
+}
+
+// A LineProvider that accepts restricted zones and routes straight through them
+class ZoneIgnoringProvider extends LineProvider {
+  protected resolveOptions(options: ORSDirectionsOptions): ORSDirectionsOptions {
+    return options;
+  }
+}
+
+// A solution without routes, as VROOM returns when nothing is assigned
+function emptySolution(): VroomSolution {
+  return {
+    code: 0,
+    summary: {
+      cost: 0, routes: 0, unassigned: 0, setup: 0, service: 0, duration: 0, waiting_time: 0, priority: 0,
+      computing_times: { loading: 0, solving: 0, routing: 0 }
+    },
+    unassigned: [],
+    routes: []
+  };
+}
+
+// Records the problems it is given and assigns nothing
+class RecordingSolver implements VroomSolver {
+  readonly name = 'recording';
+  problems: VroomProblem[] = [];
+
+  async solve(problem: VroomProblem): Promise<VroomSolution> {
+    this.problems.push(problem);
+    return emptySolution();
+  }
+}
+
+function step(type: VroomSolution['routes'][number]['steps'][number]['type'], location: [number, number], fields: object = {}) {
+  return { type, location, setup: 0, service: 10, waiting_time: 0, ...fields };
+}
+
+// Vehicle 1 has served job 1 and picked up shipment 10 and is on its way to job 2
+function previousRequest(): ReoptimizeRequest {
+  const problem: VroomProblem = {
+    vehicles: [{ id: 1, start: [0, 0], end: [0, 0] }, { id: 2, start: [5, 0] }],
+    jobs: [{ id: 1, location: [1, 0] }, { id: 2, location: [2, 0] }],
+    shipments: [{
+      id: 10,
+      amount: [3],
+      pickup: { id: 11, location: [3, 0] },
+      delivery: { id: 12, location: [4, 0], service: 30 }
+    }]
+  };
+  const route = {
+    vehicle: 1, cost: 0, setup: 0, service: 40, duration: 800, waiting_time: 0, priority: 0, distance: 8,
+    geometry: polyline.encode([[0, 0], [0, 1], [0, 3], [0, 2], [0, 4], [0, 0]]),
+    steps: [
+      step('start', [0, 0], { service: 0, arrival: 0, duration: 0, distance: 0 }),
+      step('job', [1, 0], { id: 1, arrival: 100, duration: 100, distance: 1, leg: { distance: 1, duration: 100, geometry_range: [0, 1] } }),
+      step('pickup', [3, 0], { id: 11, arrival: 310, duration: 300, distance: 3, leg: { distance: 2, duration: 200, geometry_range: [1, 2] } }),
+      step('job', [2, 0], { id: 2, arrival: 420, duration: 400, distance: 4, leg: { distance: 1, duration: 100, geometry_range: [2, 3] } }),
+      step('delivery', [4, 0], { id: 12, arrival: 630, duration: 600, distance: 6, leg: { distance: 2, duration: 200, geometry_range: [3, 4] } }),
+      step('end', [0, 0], { service: 0, arrival: 1070, duration: 1000, distance: 10, leg: { distance: 4, duration: 400, geometry_range: [4, 5] } })
+    ]
+  } as VroomSolution['routes'][number];
+  return {
+    problem,
+    solution: { ...emptySolution(), routes: [route] },
+    vehicles: [{ id: 1, completed_steps: 3 }],
+    jobs: [{ id: 3, location: [6, 0] }]
+  };
+}
+
+test('locks served and in-progress steps and restarts the vehicle after them', () => {
+  const remaining = buildRemainingProblem(previousRequest(), new Map([[1, 450]]));
+  const [vehicle, idle] = remaining.problem.vehicles;
+
+  assert.deepEqual(remaining.locked.get(1)!.map(locked => locked.id), [undefined, 1, 11, 2]);
+  assert.deepEqual(vehicle.start, [2, 0]);
+  // Job 2 starts at the later recomputed arrival and takes its 10 s service
+  assert.deepEqual(vehicle.time_window, [460, 4294967295]);
+  assert.deepEqual(vehicle.skills, [LOCK_SKILL]);
+  assert.deepEqual(idle, { id: 2, start: [5, 0] });
+});
+
+test('turns a picked-up shipment into a delivery job pinned to its vehicle', () => {
+  const remaining = buildRemainingProblem(previousRequest());
+  const { jobs, shipments } = remaining.problem;
+
+  assert.deepEqual(shipments, []);
+  assert.deepEqual(jobs.map(job => job.id), [3, 4]);
+  assert.deepEqual(jobs[1], {
+    id: 4,
+    description: undefined,
+    location: [4, 0],
+    setup: undefined,
+    service: 30,
+    time_windows: undefined,
+    delivery: [3],
+    skills: [LOCK_SKILL],
+    priority: undefined
+  });
+  assert.deepEqual(remaining.deliveryJobs.get(4), { shipment: 10, delivery: 12 });
+});
+
+test('puts the locked steps in front of the re-solved route', () => {
+  const request = previousRequest();
+  const remaining = buildRemainingProblem(request);
+  const resolved: VroomSolution = {
+    ...emptySolution(),
+    routes: [{
+      vehicle: 1, cost: 0, setup: 0, service: 30, duration: 600, waiting_time: 0, priority: 0, distance: 6,
+      geometry: polyline.encode([[0, 2], [0, 4], [0, 0]]),
+      legs: [{ from_step: 0, to_step: 1, distance: 2, duration: 200 }],
+      steps: [
+        step('start', [2, 0], { service: 0, arrival: 410, duration: 0, distance: 0 }),
+        step('job', [4, 0], { id: 4, arrival: 610, duration: 200, distance: 2, leg: { distance: 2, duration: 200, geometry_range: [0, 1] } }),
+        step('end', [0, 0], { service: 0, arrival: 1040, duration: 600, distance: 6, leg: { distance: 4, duration: 400, geometry_range: [1, 2] } })
+      ]
+    } as VroomSolution['routes'][number]]
+  };
+
+  mergeLockedSteps(resolved, remaining, request.solution);
+  const [route] = resolved.routes;
+
+  assert.deepEqual(route.steps.map(merged => [merged.type, merged.id]), [
+    ['start', undefined], ['job', 1], ['pickup', 11], ['job', 2], ['delivery', 12], ['end', undefined]
+  ]);
+  assert.deepEqual(route.steps.slice(4).map(merged => [merged.duration, merged.distance]), [[600, 6], [1000, 10]]);
+  assert.deepEqual(route.steps[4].leg!.geometry_range, [3, 4]);
+  assert.deepEqual(route.legs, [{ from_step: 3, to_step: 4, distance: 2, duration: 200 }]);
+  assert.equal(route.duration, 1000);
+  assert.equal(route.distance, 10);
+  assert.deepEqual(polyline.decode(route.geometry!), [[0, 0], [0, 1], [0, 3], [0, 2], [0, 4], [0, 0]]);
+});
+
+test('reports moved and added tasks against the previous solution', () => {
+  const request = previousRequest();
+  const remaining = buildRemainingProblem(request);
+  const resolved: VroomSolution = {
+    ...emptySolution(),
+    routes: [{
+      vehicle: 2, cost: 0, setup: 0, service: 0, duration: 0, waiting_time: 0, priority: 0,
+      steps: [step('start', [5, 0]), step('job', [6, 0], { id: 3 })]
+    }]
+  };
+  mergeLockedSteps(resolved, remaining, request.solution);
+
+  const diff = diffAssignments(request, resolved, remaining);
+
+  // Shipment 10 stays on vehicle 1 through its locked pickup
+  assert.deepEqual(diff.moved, []);
+  assert.deepEqual(diff.added, [{ type: 'job', id: 3, vehicle: 2 }]);
+  assert.equal(diff.unchanged, 3);
+  assert.equal(diff.locked, 4);
+});
+
+test('reuses the previous matrices and only routes pairs of new locations', async () => {
+  const provider = new LineProvider([0.03]);
+  const solver = new RecordingSolver();
+  const vroomOrs = new VroomORS('', undefined, undefined, { providers: [provider], defaultProvider: 'line', solver, logger: quiet });
+  const problem: VroomProblem = {
+    vehicles: [{ id: 1, start: [0.01, 0], end: [0.01, 0] }],
+    jobs: [{ id: 1, location: [0.02, 0] }, { id: 2, location: [0.03, 0] }]
+  };
+  const previous = await vroomOrs.solve(problem, {}, { includeMatrices: true });
+  provider.routed = [];
+
+  const { solution } = await vroomOrs.reoptimize({ problem, solution: previous, jobs: [{ id: 3, location: [0.04, 0] }] });
+  const [, resolved] = solver.problems;
+  const { durations, distances } = resolved.matrices!['driving-car'];
+
+  // The three rows and columns of the new location, less its diagonal
+  assert.equal(provider.routed.length, 6);
+  assert.ok(provider.routed.every(pair => pair.includes(0.04)));
+  // Locations are jobs 1 to 3, then the start: 0.01 was last before too
+  assert.equal(distances![3][0], previous.matrices!.profiles['driving-car'].distances![2][0]);
+  assert.equal(durations![3][2], 108);
+  // Pairs from 0.03 failed before; they are not retried, but reported again
+  assert.equal(durations![1][0], 999999);
+  assert.ok(solution.unreachable!.some(pair => pair.error === 'No route found in the previous solve'));
+});
+
+test('rebuilds previous matrices routed with other options', async () => {
+  const provider = new LineProvider();
+  const solver = new RecordingSolver();
+  const vroomOrs = new VroomORS('', undefined, undefined, { providers: [provider], defaultProvider: 'line', solver, logger: quiet });
+  const problem: VroomProblem = {
+    vehicles: [{ id: 1, start: [0.01, 0] }],
+    jobs: [{ id: 1, location: [0.02, 0] }, { id: 2, location: [0.03, 0] }]
+  };
+  const previous = await vroomOrs.solve(problem, {}, { includeMatrices: true });
+  provider.routed = [];
+
+  await vroomOrs.reoptimize({ problem, solution: previous, jobs: [{ id: 3, location: [0.04, 0] }] }, { units: 'm' });
+
+  assert.equal(provider.routed.length, 12);
+});
+
+test('rebuilds previous matrices routed around zones changed since', async t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const zones = new RestrictedZoneStore();
+  const polygon = { type: 'Polygon' as const, coordinates: [[[0, 1], [1, 1], [1, 2], [0, 1]]] };
+  await zones.set('lez', polygon);
+  const provider = new ZoneIgnoringProvider();
+  const solver = new RecordingSolver();
+  const vroomOrs = new VroomORS('', undefined, undefined, { providers: [provider], defaultProvider: 'line', solver, zones, logger: quiet });
+  const problem: VroomProblem = {
+    vehicles: [{ id: 1, start: [0.01, 0] }],
+    jobs: [{ id: 1, location: [0.02, 0] }, { id: 2, location: [0.03, 0] }]
+  };
+  const request: ReoptimizeRequest = { problem, solution: await vroomOrs.solve(problem, { avoid_zones: ['lez'] }, { includeMatrices: true }), jobs: [{ id: 3, location: [0.04, 0] }] };
+
+  provider.routed = [];
+  await vroomOrs.reoptimize(request, { avoid_zones: ['lez'] });
+  assert.equal(provider.routed.length, 6);
+
+  t.mock.timers.tick(1000);
+  await zones.set('lez', { ...polygon, coordinates: [[[0, 1], [2, 1], [2, 2], [0, 1]]] });
+  provider.routed = [];
+  await vroomOrs.reoptimize(request, { avoid_zones: ['lez'] });
+  assert.equal(provider.routed.length, 12);
+});
@@ -0,0 +1,270 @@
+import polyline from '@mapbox/polyline';
+import {
+  ReoptimizeDiff,
+  ReoptimizeRequest,
+  VroomJob,
+  VroomProblem,
+  VroomRoute,
+  VroomShipment,
+  VroomSolution,
+  VroomStep,
+  VroomVehicle
+} from './types.js';
+import { decodeGeometry, getTaskAssignments } from './solution-utils.js';
+
+// Skills from this value up pin picked-up shipments to the vehicle carrying them
+const LOCK_SKILL_BASE = 1000000000;
+// Largest VROOM time value, used as the end of vehicle time windows left open
+const MAX_TIME = 4294967295;
+
+export interface RemainingProblem {
+  problem: VroomProblem; // remaining and new tasks, vehicles starting after their locked steps
+  locked: Map<number, VroomStep[]>; // steps kept from each vehicle's previous route
+  deliveryJobs: Map<number, { shipment: number; delivery: number }>; // jobs standing in for picked-up shipments
+}
+
+/**
+ * Splits a previous solution at each vehicle's progress. Completed and
+ * in-progress steps are locked, vehicles restart from their last locked step
+ * once it is served, and the unlocked and new tasks form the problem to
+ * re-solve. A shipment picked up in a locked step becomes a delivery-only job
+ * pinned to its vehicle. `arrivals` replaces the planned arrival at a
+ * vehicle's in-progress step.
+ */
+export function buildRemainingProblem(
+  request: ReoptimizeRequest,
+  arrivals: Map<number, number> = new Map()
+): RemainingProblem {
+  const { problem, solution, time } = request;
+  const states = new Map((request.vehicles || []).map(state => [state.id, state]));
+  const locked = new Map<number, VroomStep[]>();
+  const lockedJobs = new Set<number>();
+  const lockedPickups = new Map<number, number>(); // pickup id -> index of the vehicle carrying it
+  const lockedDeliveries = new Set<number>();
+  const vehicles: VroomVehicle[] = [];
+
+  problem.vehicles.forEach((original, vehicleIndex) => {
+    // Fixed steps would reference tasks that are no longer part of the problem
+    const { steps: _steps, ...vehicle } = original;
+    const state = states.get(vehicle.id);
+    const steps = solution.routes?.find(route => route.vehicle === vehicle.id)?.steps || [];
+    const completed = Math.min(Math.max(state?.completed_steps ?? 0, 0), steps.length);
+    const inProgress = completed > 0 && completed < steps.length;
+    const vehicleLocked = steps.slice(0, inProgress ? completed + 1 : completed);
+
+    if (vehicleLocked.length === 0) {
+      vehicles.push(state?.position
+        ? { ...vehicle, start: state.position, ...(time !== undefined && { time_window: openTimeWindow(vehicle, time) }) }
+        : vehicle);
+      return;
+    }
+
+    locked.set(vehicle.id, vehicleLocked);
+    for (const step of vehicleLocked) {
+      if (step.type === 'job' && step.id !== undefined) {
+        lockedJobs.add(step.id);
+      } else if (step.type === 'pickup' && step.id !== undefined) {
+        lockedPickups.set(step.id, vehicleIndex);
+      } else if (step.type === 'delivery' && step.id !== undefined) {
+        lockedDeliveries.add(step.id);
+      }
+    }
+
+    const last = vehicleLocked[vehicleLocked.length - 1];
+    if (last.type === 'end') {
+      return; // the whole route is done or under way
+    }
+    if (!last.location) {
+      throw new Error(`Step ${vehicleLocked.length - 1} of vehicle ${vehicle.id} has no location`);
+    }
+
+    const plannedStart = (last.arrival ?? 0) + (last.waiting_time ?? 0);
+    const departure = inProgress
+      ? Math.max(arrivals.get(vehicle.id) ?? plannedStart, plannedStart) + (last.setup ?? 0) + (last.service ?? 0)
+      : time ?? plannedStart + (last.setup ?? 0) + (last.service ?? 0);
+
+    vehicles.push({
+      ...vehicle,
+      start: inProgress ? last.location : state?.position ?? last.location,
+      time_window: openTimeWindow(vehicle, departure),
+      skills: [...(vehicle.skills || []), LOCK_SKILL_BASE + vehicleIndex]
+    });
+  });
+
+  const jobs: VroomJob[] = [...problem.jobs.filter(job => !lockedJobs.has(job.id)), ...(request.jobs || [])];
+  const shipments: VroomShipment[] = [];
+  const deliveryJobs = new Map<number, { shipment: number; delivery: number }>();
+  let nextJobId = Math.max(0, ...jobs.map(job => job.id)) + 1;
+
+  for (const shipment of problem.shipments || []) {
+    const carrier = shipment.pickup?.id !== undefined ? lockedPickups.get(shipment.pickup.id) : undefined;
+    if (carrier === undefined) {
+      shipments.push(shipment);
+      continue;
+    }
+    const delivery = shipment.delivery;
+    if (!delivery || delivery.id === undefined || lockedDeliveries.has(delivery.id)) {
+      continue;
+    }
+
+    // The goods are on board, so the delivery is a job loaded at the vehicle's start
+    const id = nextJobId++;
+    deliveryJobs.set(id, { shipment: shipment.id, delivery: delivery.id });
+    jobs.push({
+      id,
+      description: delivery.description,
+      location: delivery.location,
+      setup: delivery.setup,
+      service: delivery.service,
+      time_windows: delivery.time_windows,
+      delivery: shipment.amount,
+      skills: [...(shipment.skills || []), LOCK_SKILL_BASE + carrier],
+      priority: shipment.priority
+    });
+  }
+  shipments.push(...(request.shipments || []));
+
+  const { matrices: _matrices, ...rest } = problem;
+  return {
+    problem: { ...rest, jobs, shipments, vehicles },
+    locked,
+    deliveryJobs
+  };
+}
+
+/**
+ * Puts the locked steps back in front of the re-solved routes, continuing
+ * their cumulative distance, duration and geometry, and maps stand-in jobs
+ * back to the shipment deliveries they replaced.
+ */
+export function mergeLockedSteps(solution: VroomSolution, remaining: RemainingProblem, previous: VroomSolution): void {
+  for (const route of solution.routes || []) {
+    for (const step of route.steps) {
+      const stand = step.type === 'job' && step.id !== undefined ? remaining.deliveryJobs.get(step.id) : undefined;
+      if (stand) {
+        step.type = 'delivery';
+        step.id = stand.delivery;
+      }
+    }
+  }
+  solution.unassigned = (solution.unassigned || []).map(task => {
+    const stand = remaining.deliveryJobs.get(task.id);
+    return stand ? { ...task, id: stand.delivery, type: 'delivery' } : task;
+  });
+
+  solution.routes = solution.routes || [];
+  for (const [vehicleId, lockedSteps] of remaining.locked) {
+    const previousRoute = previous.routes.find(route => route.vehicle === vehicleId)!;
+    const last = lockedSteps[lockedSteps.length - 1];
+    const lockedGeometry = getLockedGeometry(previousRoute, last);
+    const route = solution.routes.find(r => r.vehicle === vehicleId);
+
+    // Finished vehicles and vehicles without new tasks only keep their locked steps
+    if (!route) {
+      const { legs: _legs, ...rest } = previousRoute;
+      solution.routes.push({
+        ...rest,
+        steps: lockedSteps,
+        geometry: lockedGeometry.length > 1 ? encodeGeometry(lockedGeometry) : undefined
+      });
+      continue;
+    }
+
+    const steps = route.steps.filter(step => step.type !== 'start');
+    let pointOffset = 0;
+    if (route.geometry && lockedGeometry.length > 0) {
+      const remainingGeometry = decodeGeometry(route.geometry);
+      pointOffset = lockedGeometry.length - 1;
+      route.geometry = encodeGeometry([...lockedGeometry, ...remainingGeometry.slice(1)]);
+    }
+    for (const step of steps) {
+      if (step.distance !== undefined) {
+        step.distance += last.distance ?? 0;
+      }
+      if (step.duration !== undefined) {
+        step.duration += last.duration ?? 0;
+      }
+      if (step.leg?.geometry_range) {
+        step.leg.geometry_range = [step.leg.geometry_range[0] + pointOffset, step.leg.geometry_range[1] + pointOffset];
+      }
+    }
+
+    // Step indices of the re-solved route shift by the locked steps, less the dropped start
+    const stepOffset = lockedSteps.length - 1;
+    route.legs = route.legs?.map(leg => ({ ...leg, from_step: leg.from_step + stepOffset, to_step: leg.to_step + stepOffset }));
+    route.steps = [...lockedSteps, ...steps];
+    route.duration += last.duration ?? 0;
+    if (route.distance !== undefined) {
+      route.distance += last.distance ?? 0;
+    }
+  }
+
+  solution.routes.sort((a, b) => a.vehicle - b.vehicle);
+  if (solution.summary) {
+    solution.summary.routes = solution.routes.length;
+    solution.summary.unassigned = solution.unassigned.length;
+  }
+}
+
+/**
+ * Compares which vehicle every task is on before and after re-optimization.
+ * Unassigned tasks have a null vehicle.
+ */
+export function diffAssignments(request: ReoptimizeRequest, solution: VroomSolution, remaining: RemainingProblem): ReoptimizeDiff {
+  const { problem } = request;
+  const combined: VroomProblem = {
+    ...problem,
+    jobs: [...problem.jobs, ...(request.jobs || [])],
+    shipments: [...(problem.shipments || []), ...(request.shipments || [])]
+  };
+  const before = getTaskAssignments(request.solution, problem);
+  const after = getTaskAssignments(solution, combined);
+  const diff: ReoptimizeDiff = {
+    moved: [],
+    added: [],
+    unchanged: 0,
+    locked: Array.from(remaining.locked.values()).reduce((count, steps) => count + steps.length, 0)
+  };
+
+  const compare = (type: 'job' | 'shipment', id: number) => {
+    const from = before.get(`${type}:${id}`) ?? null;
+    const to = after.get(`${type}:${id}`) ?? null;
+    if (from === to) {
+      diff.unchanged++;
+    } else {
+      diff.moved.push({ type, id, from_vehicle: from, to_vehicle: to });
+    }
+  };
+  problem.jobs.forEach(job => compare('job', job.id));
+  (problem.shipments || []).forEach(shipment => compare('shipment', shipment.id));
+
+  for (const job of request.jobs || []) {
+    diff.added.push({ type: 'job', id: job.id, vehicle: after.get(`job:${job.id}`) ?? null });
+  }
+  for (const shipment of request.shipments || []) {
+    diff.added.push({ type: 'shipment', id: shipment.id, vehicle: after.get(`shipment:${shipment.id}`) ?? null });
+  }
+
+  return diff;
+}
+
+// The part of the previous route geometry up to the last locked step, as [lng, lat] pairs
+function getLockedGeometry(route: VroomRoute, last: VroomStep): Array<[number, number]> {
+  const end = last.leg?.geometry_range?.[1];
+  if (!route.geometry || end === undefined) {
+    return [];
+  }
+  return decodeGeometry(route.geometry).slice(0, end + 1);
+}
+
+function encodeGeometry(coordinates: Array<[number, number]>): string {
+  return polyline.encode(coordinates.map(([lng, lat]) => [lat, lng]));
+}
+
+// A vehicle time window starting at the given time, keeping the original end
+function openTimeWindow(vehicle: VroomVehicle, start: number): [number, number] {
+  // VROOM only accepts integer times
+  const begin = Math.ceil(start);
+  const end = vehicle.time_window?.[1] ?? MAX_TIME;
+  return [begin, Math.max(begin, end)];
+}
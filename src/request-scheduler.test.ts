@@ -0,0 +1,147 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestScheduler } from './request-scheduler.js';
+import { ORSClient } from './ors-client.js';
+import { QuotaExceededError, RateLimitError } from './errors.js';
+
+const LOCATIONS = [{ lat: 49.41, lng: 8.68 }, { lat: 49.42, lng: 8.7 }, { lat: 49.39, lng: 8.66 }];
+
+// A directions response of one 1 km, 60 s segment
+function directionsResponse(): Response {
+  return Response.json({ routes: [{ summary: { distance: 1, duration: 60 }, segments: [{ distance: 1, duration: 60, steps: [] }] }] });
+}
+
+test('starts waiting requests by priority, then in submission order', async () => {
+  const scheduler = new RequestScheduler({ perSecond: 50, burst: 1 });
+  const started: string[] = [];
+  const run = (name: string, priority: number) => scheduler.schedule(async () => {
+    started.push(name);
+  }, priority);
+
+  // The first request takes the only token; the rest queue behind it
+  await Promise.all([run('first', 0), run('low', 0), run('high', 1), run('low again', 0), run('higher', 2)]);
+
+  assert.deepEqual(started, ['first', 'higher', 'high', 'low', 'low again']);
+});
+
+test('limits the rate to perSecond after the burst', async () => {
+  const scheduler = new RequestScheduler({ perSecond: 20, burst: 2 });
+  const started = performance.now();
+
+  await Promise.all(Array.from({ length: 4 }, () => scheduler.schedule(async () => undefined)));
+
+  // Two start at once, the other two wait a token each (50 ms)
+  assert.ok(performance.now() - started >= 90);
+});
+
+test('fails queued requests with a QuotaExceededError once the daily quota is used', async () => {
+  const scheduler = new RequestScheduler({ perDay: 2 });
+  const results = await Promise.allSettled([1, 2, 3].map(value => scheduler.schedule(async () => value)));
+
+  assert.deepEqual(results.slice(0, 2).map(result => result.status), ['fulfilled', 'fulfilled']);
+  assert.equal(results[2].status, 'rejected');
+  assert.ok((results[2] as PromiseRejectedResult).reason instanceof QuotaExceededError);
+  assert.equal(scheduler.usage.remaining_today, 0);
+});
+
+test('holds back requests while paused', async () => {
+  const scheduler = new RequestScheduler();
+  scheduler.pause(0.1);
+  const started = performance.now();
+
+  await scheduler.schedule(async () => undefined);
+
+  assert.ok(performance.now() - started >= 90);
+  assert.equal(scheduler.usage.rate_limited, 1);
+});
+
+test('rejects a waiting request with the abort reason and drops it from the queue', async () => {
+  const scheduler = new RequestScheduler({ perSecond: 1, burst: 1 });
+  await scheduler.schedule(async () => undefined);
+  const controller = new AbortController();
+  const waiting = scheduler.schedule(async () => 'ran', 0, controller.signal);
+
+  controller.abort(new Error('cancelled'));
+
+  await assert.rejects(waiting, /cancelled/);
+  assert.equal(scheduler.usage.queued, 0);
+});
+
+test('stops waiting for the next token once every waiting request aborted', async () => {
+  const scheduler = new RequestScheduler();
+  scheduler.pause(5);
+  const timers = () => process.getActiveResourcesInfo().filter(resource => resource === 'Timeout').length;
+  const idle = timers();
+  const controller = new AbortController();
+  const waiting = scheduler.schedule(async () => 'ran', 0, controller.signal);
+  assert.equal(timers(), idle + 1);
+
+  controller.abort(new Error('cancelled'));
+
+  await assert.rejects(waiting, /cancelled/);
+  assert.equal(timers(), idle);
+});
+
+test('reads Retry-After as seconds or as an HTTP date', async t => {
+  const client = new ORSClient('key', 'http://ors.test');
+  const retryAfter = [
+    '3',
+    new Date(Date.now() + 10000).toUTCString()
+  ];
+  t.mock.method(globalThis, 'fetch', async () =>
+    new Response('Rate Limit Exceeded', { status: 429, headers: { 'Retry-After': retryAfter.shift()! } }));
+
+  await assert.rejects(client.getRoute(LOCATIONS.slice(0, 2)), (error: any) =>
+    error instanceof RateLimitError && error.retryAfter === 3);
+  await assert.rejects(client.getRoute(LOCATIONS.slice(0, 2)), (error: any) =>
+    error instanceof RateLimitError && error.retryAfter! > 8 && error.retryAfter! <= 10);
+});
+
+test('retries after a 429 and pauses all scheduled traffic for its Retry-After', async t => {
+  const scheduler = new RequestScheduler();
+  const client = new ORSClient('key', 'http://ors.test', { scheduler, logger: { log: () => {}, warn: () => {} } });
+  const fetchMock = t.mock.method(globalThis, 'fetch', async () => directionsResponse());
+  fetchMock.mock.mockImplementationOnce(async () =>
+    new Response('Rate Limit Exceeded', { status: 429, headers: { 'Retry-After': '0' } }));
+  const onRateLimit = mock.fn();
+
+  const segments = await client.getRouteSegments(LOCATIONS.slice(0, 2), {}, { onRateLimit });
+
+  assert.equal(segments.length, 1);
+  assert.equal(fetchMock.mock.callCount(), 2);
+  assert.deepEqual(onRateLimit.mock.calls[0].arguments, [0, 1]);
+  assert.equal(scheduler.usage.rate_limited, 1);
+});
+
+test('stops building a matrix once the quota is exhausted', async t => {
+  const client = new ORSClient('key', 'http://ors.test', {
+    scheduler: new RequestScheduler({ perDay: 2 }),
+    concurrency: 2,
+    logger: { log: () => {}, warn: () => {} }
+  });
+  const fetchMock = t.mock.method(globalThis, 'fetch', async () => directionsResponse());
+
+  await assert.rejects(client.createMatrix(LOCATIONS, {}, false), QuotaExceededError);
+  assert.equal(fetchMock.mock.callCount(), 2);
+});
+
+test('retries rate limited table requests instead of falling back to pairwise directions', async t => {
+  const client = new ORSClient('key', 'http://ors.test', { logger: { log: () => {}, warn: () => {} } });
+  const rateLimited = () => new Response('Rate Limit Exceeded', { status: 429, headers: { 'Retry-After': '0' } });
+  const fetchMock = t.mock.method(globalThis, 'fetch', async () => Response.json({
+    durations: [[0, 60], [60, 0]],
+    distances: [[0, 1], [1, 0]]
+  }));
+  fetchMock.mock.mockImplementationOnce(async () => rateLimited());
+
+  const entries = await client.createCostMatrix(LOCATIONS.slice(0, 2));
+
+  assert.equal(entries.length, 4);
+  assert.ok(fetchMock.mock.calls.every(call => String(call.arguments[0]).includes('/v2/matrix/')));
+
+  fetchMock.mock.mockImplementation(async () => rateLimited());
+  fetchMock.mock.resetCalls();
+  await assert.rejects(client.createCostMatrix(LOCATIONS.slice(0, 2)), RateLimitError);
+  assert.equal(fetchMock.mock.callCount(), 4);
+  assert.ok(fetchMock.mock.calls.every(call => String(call.arguments[0]).includes('/v2/matrix/')));
+});
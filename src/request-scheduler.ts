@@ -0,0 +1,176 @@
+import { QuotaExceededError } from './errors.js';
+
+export interface RequestSchedulerOptions {
+  perSecond?: number; // sustained request rate (unlimited when unset)
+  burst?: number; // requests that may start back to back (defaults to perSecond, at least 1)
+  perDay?: number; // daily quota, reset at midnight UTC (unlimited when unset)
+}
+
+export interface SchedulerUsage {
+  per_second: number | null;
+  per_day: number | null;
+  used_today: number;
+  remaining_today: number | null;
+  resets_at: string;
+  queued: number;
+  in_flight: number;
+  rate_limited: number; // times the service answered 429
+  paused_until: string | null; // set while honouring a Retry-After
+}
+
+interface QueuedRequest {
+  priority: number;
+  start: () => void;
+  fail: (error: unknown) => void;
+}
+
+/**
+ * Shares one request budget between everything that calls a routing
+ * service: a token bucket limits the rate, a counter enforces the daily
+ * quota and a 429 pauses all traffic for its Retry-After. Waiting requests
+ * start highest priority first, in submission order among equal priorities.
+ */
+export class RequestScheduler {
+  private perSecond?: number;
+  private burst: number;
+  private perDay?: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: QueuedRequest[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private pausedUntil = 0;
+  private day = this.currentDay();
+  private usedToday = 0;
+  private inFlight = 0;
+  private rateLimited = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.perSecond = options.perSecond;
+    this.burst = options.burst ?? Math.max(1, options.perSecond ?? 1);
+    this.perDay = options.perDay;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Runs the task once the budget allows. Rejects with a QuotaExceededError
+   * when the daily quota is used up, or with the abort reason when the
+   * signal aborts while waiting.
+   */
+  schedule<T>(task: () => Promise<T>, priority: number = 0, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(item => item !== request);
+        // Nothing is left to wake for; a pending timer would keep the process alive until it fires
+        if (this.queue.length === 0 && this.timer) {
+          clearTimeout(this.timer);
+          this.timer = null;
+        }
+        reject(signal!.reason);
+      };
+      const request: QueuedRequest = {
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.inFlight++;
+          task().then(resolve, reject).finally(() => this.inFlight--);
+        },
+        fail: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const index = this.queue.findIndex(item => item.priority < priority);
+      this.queue.splice(index < 0 ? this.queue.length : index, 0, request);
+      this.pump();
+    });
+  }
+
+  // Holds back every request for the given seconds, e.g. a 429's Retry-After
+  pause(seconds: number): void {
+    this.rateLimited++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + seconds * 1000);
+    this.pump();
+  }
+
+  get usage(): SchedulerUsage {
+    this.rollDay();
+    return {
+      per_second: this.perSecond ?? null,
+      per_day: this.perDay ?? null,
+      used_today: this.usedToday,
+      remaining_today: this.perDay !== undefined ? Math.max(this.perDay - this.usedToday, 0) : null,
+      resets_at: this.resetsAt().toISOString(),
+      queued: this.queue.length,
+      in_flight: this.inFlight,
+      rate_limited: this.rateLimited,
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+    };
+  }
+
+  // Starts as many queued requests as the budget allows, then waits for the next token
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      this.rollDay();
+      if (this.perDay !== undefined && this.usedToday >= this.perDay) {
+        const error = new QuotaExceededError(this.perDay, this.resetsAt());
+        for (const request of this.queue.splice(0)) {
+          request.fail(error);
+        }
+        return;
+      }
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now);
+        return;
+      }
+      if (this.perSecond !== undefined) {
+        this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) / 1000 * this.perSecond);
+        this.lastRefill = now;
+        if (this.tokens < 1) {
+          this.wake((1 - this.tokens) / this.perSecond * 1000);
+          return;
+        }
+        this.tokens--;
+      }
+
+      this.usedToday++;
+      this.queue.shift()!.start();
+    }
+  }
+
+  private wake(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.ceil(delay));
+  }
+
+  private rollDay(): void {
+    const day = this.currentDay();
+    if (day !== this.day) {
+      this.day = day;
+      this.usedToday = 0;
+    }
+  }
+
+  private currentDay(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private resetsAt(): Date {
+    const reset = new Date(`${this.day}T00:00:00.000Z`);
+    reset.setUTCDate(reset.getUTCDate() + 1);
+    return reset;
+  }
+}
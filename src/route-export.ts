@@ -0,0 +1,254 @@
+import { Logger, VroomProblem, VroomSolution, VroomRoute, VroomStep } from './types.js';
+import { decodeGeometry, findStepTask } from './solution-utils.js';
+
+export interface RouteExportOptions {
+  vehicle?: number; // only export the route of this vehicle
+  // Epoch seconds added to VROOM arrival times. Without it, arrivals below
+  // 1e9 are treated as relative and only written as descriptions.
+  timeOrigin?: number;
+  logger?: Logger; // warnings about undecodable geometries (defaults to console)
+}
+
+interface ExportWaypoint {
+  location: [number, number]; // [longitude, latitude]
+  name: string;
+  description: string;
+  type: VroomStep['type'];
+  time?: string; // ISO 8601
+}
+
+/**
+ * Writes routes as a GPX 1.1 document: one waypoint per step (before the
+ * tracks, as the schema requires) and one track per vehicle.
+ */
+export function solutionToGPX(
+  solution: VroomSolution,
+  problem?: VroomProblem,
+  options: RouteExportOptions = {}
+): string {
+  const routes = selectRoutes(solution, options);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="vroom-ors-directions" xmlns="http://www.topografix.com/GPX/1/1">'
+  ];
+
+  for (const route of routes) {
+    for (const waypoint of getWaypoints(route, problem, options)) {
+      const [lng, lat] = waypoint.location;
+      lines.push(`  <wpt lat="${lat}" lon="${lng}">`);
+      if (waypoint.time) {
+        lines.push(`    <time>${waypoint.time}</time>`);
+      }
+      lines.push(`    <name>${escapeXml(waypoint.name)}</name>`);
+      lines.push(`    <desc>${escapeXml(waypoint.description)}</desc>`);
+      lines.push(`    <type>${waypoint.type}</type>`);
+      lines.push('  </wpt>');
+    }
+  }
+
+  for (const route of routes) {
+    lines.push('  <trk>');
+    lines.push(`    <name>${escapeXml(getRouteName(route, problem))}</name>`);
+    lines.push('    <trkseg>');
+    for (const [lng, lat] of getTrack(route, options)) {
+      lines.push(`      <trkpt lat="${lat}" lon="${lng}"/>`);
+    }
+    lines.push('    </trkseg>');
+    lines.push('  </trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+}
+
+/**
+ * Writes routes as a KML 2.2 document with one folder per vehicle holding the
+ * route line and a placemark per step.
+ */
+export function solutionToKML(
+  solution: VroomSolution,
+  problem?: VroomProblem,
+  options: RouteExportOptions = {}
+): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>vroom-ors-directions</name>'
+  ];
+
+  for (const route of selectRoutes(solution, options)) {
+    const routeName = getRouteName(route, problem);
+    const track = getTrack(route, options);
+
+    lines.push('    <Folder>');
+    lines.push(`      <name>${escapeXml(routeName)}</name>`);
+    if (track.length > 1) {
+      lines.push('      <Placemark>');
+      lines.push(`        <name>${escapeXml(routeName)}</name>`);
+      lines.push('        <LineString>');
+      lines.push('          <tessellate>1</tessellate>');
+      lines.push(`          <coordinates>${track.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates>`);
+      lines.push('        </LineString>');
+      lines.push('      </Placemark>');
+    }
+
+    for (const waypoint of getWaypoints(route, problem, options)) {
+      const [lng, lat] = waypoint.location;
+      lines.push('      <Placemark>');
+      lines.push(`        <name>${escapeXml(waypoint.name)}</name>`);
+      lines.push(`        <description>${escapeXml(waypoint.description)}</description>`);
+      if (waypoint.time) {
+        lines.push(`        <TimeStamp><when>${waypoint.time}</when></TimeStamp>`);
+      }
+      lines.push(`        <Point><coordinates>${lng},${lat}</coordinates></Point>`);
+      lines.push('      </Placemark>');
+    }
+    lines.push('    </Folder>');
+  }
+
+  lines.push('  </Document>');
+  lines.push('</kml>');
+  return lines.join('\n');
+}
+
+/**
+ * Writes one CSV row per route step, followed by rows without a vehicle for
+ * the unassigned tasks. Arrivals are ISO 8601 with a time origin, seconds otherwise.
+ */
+export function solutionToCSV(
+  solution: VroomSolution,
+  problem?: VroomProblem,
+  options: RouteExportOptions = {}
+): string {
+  const rows: Array<Array<string | number | undefined>> = [
+    ['vehicle', 'step', 'type', 'id', 'name', 'longitude', 'latitude', 'arrival', 'duration', 'distance', 'service', 'waiting_time']
+  ];
+
+  for (const route of selectRoutes(solution, options)) {
+    route.steps.forEach((step, index) => {
+      const arrival = step.arrival !== undefined ? toIsoTime(step.arrival, options) ?? step.arrival : undefined;
+      rows.push([
+        route.vehicle,
+        index,
+        step.type,
+        step.id,
+        findStepTask(step, problem)?.description || getDefaultStepName(step),
+        step.location?.[0],
+        step.location?.[1],
+        arrival,
+        step.duration,
+        step.distance,
+        step.service,
+        step.waiting_time
+      ]);
+    });
+  }
+
+  if (options.vehicle === undefined) {
+    for (const task of solution.unassigned || []) {
+      rows.push([undefined, undefined, task.type ?? 'job', task.id, 'Unassigned', task.location?.[0], task.location?.[1]]);
+    }
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+}
+
+function selectRoutes(solution: VroomSolution, options: RouteExportOptions): VroomRoute[] {
+  const routes = solution.routes || [];
+  return options.vehicle === undefined ? routes : routes.filter(route => route.vehicle === options.vehicle);
+}
+
+function getRouteName(route: VroomRoute, problem?: VroomProblem): string {
+  const vehicle = problem?.vehicles.find(v => v.id === route.vehicle);
+  return vehicle?.description || `Vehicle ${route.vehicle}`;
+}
+
+// Uses the stitched route geometry, falling back to straight lines between steps
+function getTrack(route: VroomRoute, options: RouteExportOptions): Array<[number, number]> {
+  if (route.geometry) {
+    try {
+      return decodeGeometry(route.geometry);
+    } catch (error) {
+      (options.logger || console).warn(`Failed to decode geometry for vehicle ${route.vehicle}:`, error);
+    }
+  }
+  return route.steps.filter(step => step.location).map(step => step.location!);
+}
+
+function getWaypoints(route: VroomRoute, problem: VroomProblem | undefined, options: RouteExportOptions): ExportWaypoint[] {
+  const waypoints: ExportWaypoint[] = [];
+
+  for (const step of route.steps) {
+    if (!step.location) {
+      continue;
+    }
+
+    const task = findStepTask(step, problem);
+    const name = task?.description || getDefaultStepName(step);
+    const arrival = step.arrival;
+    const description = arrival !== undefined ? `Arrival: ${formatArrival(arrival, options)}` : '';
+
+    waypoints.push({
+      location: step.location,
+      name,
+      description,
+      type: step.type,
+      time: arrival !== undefined ? toIsoTime(arrival, options) : undefined
+    });
+  }
+
+  return waypoints;
+}
+
+function getDefaultStepName(step: VroomStep): string {
+  switch (step.type) {
+    case 'start':
+      return 'Start';
+    case 'end':
+      return 'End';
+    case 'job':
+      return `Job ${step.id}`;
+    case 'pickup':
+      return `Pickup ${step.id}`;
+    case 'delivery':
+      return `Delivery ${step.id}`;
+    default:
+      return String(step.type);
+  }
+}
+
+function toIsoTime(arrival: number, options: RouteExportOptions): string | undefined {
+  if (options.timeOrigin === undefined && arrival < 1e9) {
+    return undefined;
+  }
+  return new Date(((options.timeOrigin ?? 0) + arrival) * 1000).toISOString();
+}
+
+function formatArrival(arrival: number, options: RouteExportOptions): string {
+  const isoTime = toIsoTime(arrival, options);
+  if (isoTime) {
+    return isoTime;
+  }
+  const hours = Math.floor(arrival / 3600);
+  const minutes = Math.floor((arrival % 3600) / 60);
+  const seconds = Math.floor(arrival % 60);
+  return [hours, minutes, seconds].map(value => String(value).padStart(2, '0')).join(':');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
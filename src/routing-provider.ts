@@ -0,0 +1,581 @@
+import { Coordinate, Logger, ORSDirectionsOptions, ORSSegment, MatrixEntry, RequestControl, RouteExtras } from './types.js';
+import { DirectionsCache } from './directions-cache.js';
+import { StraightLineEstimator } from './straight-line-estimator.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { Metrics } from './metrics.js';
+import { QuotaExceededError, RateLimitError } from './errors.js';
+
+// A route normalized to ORS conventions (distances in the requested units, polyline precision 5)
+export interface ProviderRoute {
+  distance: number;
+  duration: number; // in seconds
+  geometry?: string; // Encoded polyline geometry
+  segments: ORSSegment[]; // one per pair of consecutive waypoints
+  extras?: RouteExtras; // summaries of the requested extra_info, where the provider supports it
+  elevation?: Array<[number, number, number]>; // [lng, lat, elevation in meters] when elevation was requested and supported
+}
+
+// A route through several waypoints with its 3D points (empty without elevation support)
+export interface ElevationRoute {
+  segments: ORSSegment[];
+  points: Array<[number, number, number]>;
+}
+
+export interface ProviderTable {
+  durations: Array<Array<number | null>>; // rows are sources, columns destinations
+  distances: Array<Array<number | null>>;
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  readonly isOffline: boolean;
+  readonly profiles: string[]; // ORS profile names the provider can route
+  getRoute(coordinates: Coordinate[], options?: ORSDirectionsOptions, signal?: AbortSignal): Promise<ProviderRoute>;
+  createMatrix(
+    locations: Coordinate[],
+    options?: ORSDirectionsOptions,
+    includeGeometry?: boolean,
+    control?: RequestControl
+  ): Promise<MatrixEntry[]>;
+  createCostMatrix(locations: Coordinate[], options?: ORSDirectionsOptions, control?: RequestControl): Promise<MatrixEntry[]>;
+  createPartialMatrix(
+    locations: Coordinate[],
+    indices: number[],
+    options?: ORSDirectionsOptions,
+    control?: RequestControl
+  ): Promise<MatrixEntry[]>;
+  createLegEntries(
+    locations: Coordinate[],
+    legs: Array<[number, number]>,
+    options?: ORSDirectionsOptions,
+    control?: RequestControl
+  ): Promise<MatrixEntry[]>;
+  getRouteSegments(coordinates: Coordinate[], options?: ORSDirectionsOptions, control?: RequestControl): Promise<ORSSegment[]>;
+  getElevationRoute(coordinates: Coordinate[], options?: ORSDirectionsOptions, control?: RequestControl): Promise<ElevationRoute>;
+}
+
+export interface RoutingProviderOptions {
+  cache?: DirectionsCache;
+  estimator?: StraightLineEstimator;
+  // 'fallback' estimates pairs the provider fails to route, 'offline' never calls it
+  estimatorMode?: 'off' | 'fallback' | 'offline';
+  profileMap?: { [profile: string]: string }; // ORS profile names to provider profiles
+  scheduler?: RequestScheduler; // shared rate limits and quota for the service's requests
+  metrics?: Metrics; // records retries and, where the provider supports it, request counts and latency
+  concurrency?: number; // parallel requests while building matrices (defaults to 10)
+  logger?: Logger; // warnings about failed requests (defaults to console)
+}
+
+/**
+ * Shared matrix building for routing providers: pairwise directions with
+ * caching, retries and estimates, and chunked table requests. Subclasses only
+ * translate single route and table requests to their service.
+ */
+export abstract class BaseRoutingProvider implements RoutingProvider {
+  abstract readonly name: string;
+  protected cache?: DirectionsCache;
+  protected estimator: StraightLineEstimator;
+  protected estimatorMode: 'off' | 'fallback' | 'offline';
+  protected profileMap: { [profile: string]: string };
+  protected scheduler?: RequestScheduler;
+  protected metrics?: Metrics;
+  protected concurrency: number;
+  protected logger: Logger;
+  protected maxTableElements = 3500;
+  protected maxTableLocations = Infinity; // sources, and destinations, per table request
+  protected maxWaypoints = 50;
+
+  constructor(options: RoutingProviderOptions = {}, defaultProfileMap: { [profile: string]: string } = {}) {
+    this.cache = options.cache;
+    this.estimator = options.estimator || new StraightLineEstimator();
+    this.estimatorMode = options.estimatorMode || 'off';
+    this.profileMap = { ...defaultProfileMap, ...options.profileMap };
+    this.scheduler = options.scheduler;
+    this.metrics = options.metrics;
+    this.concurrency = options.concurrency ?? 10;
+    this.logger = options.logger || console;
+  }
+
+  get isOffline(): boolean {
+    return this.estimatorMode === 'offline';
+  }
+
+  get profiles(): string[] {
+    return Object.keys(this.profileMap);
+  }
+
+  abstract getRoute(coordinates: Coordinate[], options?: ORSDirectionsOptions, signal?: AbortSignal): Promise<ProviderRoute>;
+
+  protected abstract getTable(
+    locations: Coordinate[],
+    sources: number[],
+    destinations: number[],
+    options: ORSDirectionsOptions,
+    signal?: AbortSignal
+  ): Promise<ProviderTable>;
+
+  // Replaces options that refer to server-side state, like avoid_zones, with
+  // what the provider receives. Providers without restricted zone support reject them.
+  protected resolveOptions(options: ORSDirectionsOptions): ORSDirectionsOptions {
+    if (options.avoid_zones?.length) {
+      throw new Error(`The ${this.name} routing provider does not support restricted zones`);
+    }
+    return options;
+  }
+
+  // Whether the table endpoint honours the routing options (avoid_features, ...)
+  protected supportsTableOptions(options: ORSDirectionsOptions): boolean {
+    return true;
+  }
+
+  async createMatrix(
+    locations: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    includeGeometry: boolean = true,
+    control: RequestControl = {}
+  ): Promise<MatrixEntry[]> {
+    options = this.resolveOptions(options);
+    const thunks: Array<() => Promise<MatrixEntry>> = [];
+
+    // Create all direction requests as thunks (functions returning promises)
+    for (let i = 0; i < locations.length; i++) {
+      for (let j = 0; j < locations.length; j++) {
+        if (i === j) {
+          // Same location - add zero distance/duration entry
+          thunks.push(() => Promise.resolve({
+            from: i,
+            to: j,
+            distance: 0,
+            duration: 0,
+            geometry: undefined
+          }));
+        } else {
+          // Different locations - create a directions request
+          thunks.push(() => this.getDirectionEntry(locations[i], locations[j], i, j, options, includeGeometry, control));
+        }
+      }
+    }
+
+    // Execute all requests in parallel with controlled concurrency
+    const matrix = await this.executeWithConcurrency(thunks, this.concurrency, control);
+
+    return matrix;
+  }
+
+  /**
+   * Builds durations and distances without geometry, preferring the table
+   * endpoint. Falls back to pairwise directions when the endpoint cannot
+   * honour the routing options or fails, unless it stays rate limited.
+   */
+  async createCostMatrix(
+    locations: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    control: RequestControl = {}
+  ): Promise<MatrixEntry[]> {
+    options = this.resolveOptions(options);
+    if (!this.isOffline && this.supportsTableOptions(options)) {
+      try {
+        return await this.createTableMatrix(locations, options, control);
+      } catch (error) {
+        // Pairwise requests would only add load to a rate limited or exhausted service
+        if (control.signal?.aborted || error instanceof QuotaExceededError || error instanceof RateLimitError) {
+          throw error;
+        }
+        this.logger.warn(`${this.name} matrix endpoint failed, falling back to pairwise directions:`, error);
+      }
+    }
+    return this.createMatrix(locations, { ...options, geometry: false }, false, control);
+  }
+
+  /**
+   * Builds durations and distances (without geometry) only for the pairs that
+   * involve one of the given location indices: their rows and columns of the
+   * full matrix.
+   */
+  async createPartialMatrix(
+    locations: Coordinate[],
+    indices: number[],
+    options: ORSDirectionsOptions = {},
+    control: RequestControl = {}
+  ): Promise<MatrixEntry[]> {
+    options = this.resolveOptions(options);
+    const targets = new Set(indices);
+    if (targets.size === 0) {
+      return [];
+    }
+    const all = locations.map((_, index) => index);
+    const others = all.filter(index => !targets.has(index));
+
+    if (!this.isOffline && this.supportsTableOptions(options)) {
+      try {
+        const rows = await this.createTableMatrix(locations, options, control, [...targets], all);
+        const columns = others.length > 0
+          ? await this.createTableMatrix(locations, options, control, others, [...targets])
+          : [];
+        return [...rows, ...columns];
+      } catch (error) {
+        // Pairwise requests would only add load to a rate limited or exhausted service
+        if (control.signal?.aborted || error instanceof QuotaExceededError || error instanceof RateLimitError) {
+          throw error;
+        }
+        this.logger.warn(`${this.name} matrix endpoint failed, falling back to pairwise directions:`, error);
+      }
+    }
+
+    const thunks: Array<() => Promise<MatrixEntry>> = [];
+    for (const i of all) {
+      for (const j of all) {
+        if (i !== j && (targets.has(i) || targets.has(j))) {
+          thunks.push(() => this.getDirectionEntry(locations[i], locations[j], i, j, { ...options, geometry: false }, false, control));
+        }
+      }
+    }
+    const entries = await this.executeWithConcurrency(thunks, this.concurrency, control);
+    return entries.filter(entry => entry != null);
+  }
+
+  /**
+   * Fetches directions (with geometry) only for the given [from, to] index
+   * pairs, e.g. the consecutive legs of solved routes.
+   */
+  async createLegEntries(
+    locations: Coordinate[],
+    legs: Array<[number, number]>,
+    options: ORSDirectionsOptions = {},
+    control: RequestControl = {}
+  ): Promise<MatrixEntry[]> {
+    options = this.resolveOptions(options);
+    const thunks = legs
+      .filter(([from, to]) => from !== to)
+      .map(([from, to]) => () =>
+        this.getDirectionEntry(locations[from], locations[to], from, to, options, true, control)
+      );
+
+    const entries = await this.executeWithConcurrency(thunks, this.concurrency, control);
+    return entries.filter(entry => entry != null);
+  }
+
+  /**
+   * Requests directions through a sequence of waypoints and returns one
+   * segment per consecutive pair. Long sequences are split into overlapping
+   * requests of at most maxWaypoints coordinates.
+   */
+  async getRouteSegments(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    control: RequestControl = {}
+  ): Promise<ORSSegment[]> {
+    options = this.resolveOptions(options);
+    const segments: ORSSegment[] = [];
+
+    for (let start = 0; start < coordinates.length - 1; start += this.maxWaypoints - 1) {
+      const chunk = coordinates.slice(start, start + this.maxWaypoints);
+      control.onPairsRequested?.(chunk.length - 1);
+      const route = await this.getRouteWithRetry(chunk, options, control);
+      segments.push(...route.segments);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Like getRouteSegments, with elevation: segments carry ascent and descent
+   * and the 3D points of the whole route are joined across requests.
+   */
+  async getElevationRoute(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    control: RequestControl = {}
+  ): Promise<ElevationRoute> {
+    options = this.resolveOptions(options);
+    const result: ElevationRoute = { segments: [], points: [] };
+
+    for (let start = 0; start < coordinates.length - 1; start += this.maxWaypoints - 1) {
+      const chunk = coordinates.slice(start, start + this.maxWaypoints);
+      control.onPairsRequested?.(chunk.length - 1);
+      const route = await this.getRouteWithRetry(chunk, { ...options, elevation: true, geometry: true }, control);
+      result.segments.push(...route.segments);
+      // Consecutive requests share their boundary waypoint
+      const points = route.elevation || [];
+      result.points.push(...(result.points.length > 0 ? points.slice(1) : points));
+    }
+
+    return result;
+  }
+
+  protected mapProfile(profile: string = 'driving-car'): string {
+    return this.profileMap[profile] || profile;
+  }
+
+  // Builds the matrix (or the given sources x destinations part of it) from
+  // table requests, chunking sources and destinations to stay under
+  // maxTableLocations and maxTableElements
+  protected async createTableMatrix(
+    locations: Coordinate[],
+    options: ORSDirectionsOptions,
+    control: RequestControl,
+    allSources: number[] = locations.map((_, index) => index),
+    allDestinations: number[] = locations.map((_, index) => index)
+  ): Promise<MatrixEntry[]> {
+    const entries: MatrixEntry[] = [];
+    const destinationsPerRequest = Math.max(1, Math.min(this.maxTableLocations, this.maxTableElements, allDestinations.length));
+    const sourcesPerRequest = Math.max(1, Math.min(this.maxTableLocations, Math.floor(this.maxTableElements / destinationsPerRequest)));
+    const chunks: Array<[number[], number[]]> = [];
+    for (let offset = 0; offset < allSources.length; offset += sourcesPerRequest) {
+      for (let destinationOffset = 0; destinationOffset < allDestinations.length; destinationOffset += destinationsPerRequest) {
+        chunks.push([
+          allSources.slice(offset, offset + sourcesPerRequest),
+          allDestinations.slice(destinationOffset, destinationOffset + destinationsPerRequest)
+        ]);
+      }
+    }
+
+    for (const [sources, destinations] of chunks) {
+      control.onPairsRequested?.(sources.length * destinations.length);
+      const table = await this.withRetry(() => this.getTable(locations, sources, destinations, options, control.signal), control);
+
+      for (let i = 0; i < sources.length; i++) {
+        for (let j = 0; j < destinations.length; j++) {
+          const distance = table.distances?.[i]?.[j];
+          const duration = table.durations?.[i]?.[j];
+          const unreachable = distance == null || duration == null;
+          if (unreachable && this.estimatorMode === 'fallback') {
+            entries.push(this.estimateEntry(locations[sources[i]], locations[destinations[j]], sources[i], destinations[j], options, false));
+            continue;
+          }
+          if (unreachable) {
+            control.onPairFailed?.(sources[i], destinations[j], 'No route found');
+          }
+          entries.push({
+            from: sources[i],
+            to: destinations[j],
+            distance: distance ?? 999999, // 999,999 km - unreachably far
+            duration: duration ?? 999999, // 999,999 seconds - about 11.5 days
+            ...(unreachable && { error: 'No route found' })
+          });
+        }
+      }
+
+      control.onProgress?.(entries.length, allSources.length * allDestinations.length);
+    }
+
+    return entries;
+  }
+
+  // Runs a request to the service through the shared scheduler, if any. A 429
+  // with Retry-After pauses all scheduled traffic for that long.
+  protected async scheduled<T>(task: () => Promise<T>, control: RequestControl): Promise<T> {
+    if (!this.scheduler) {
+      return task();
+    }
+    try {
+      return await this.scheduler.schedule(task, control.priority ?? 0, control.signal);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        this.scheduler.pause(error.retryAfter ?? 2);
+      }
+      throw error;
+    }
+  }
+
+  protected getRouteWithRetry(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions,
+    control: RequestControl = {},
+    maxRetries: number = 3
+  ): Promise<ProviderRoute> {
+    return this.withRetry(() => this.getRoute(coordinates, options, control.signal), control, maxRetries);
+  }
+
+  // Runs a scheduled request, retrying it after rate limits
+  protected async withRetry<T>(task: () => Promise<T>, control: RequestControl, maxRetries: number = 3): Promise<T> {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await this.scheduled(task, control);
+      } catch (error: any) {
+        if (error instanceof RateLimitError || error.message?.includes('429') || error.message?.includes('Rate Limit')) {
+          if (attempt < maxRetries) {
+            // Honour Retry-After, otherwise back off exponentially: 2s, 4s, 8s
+            const delay = error.retryAfter !== undefined ? error.retryAfter * 1000 : Math.pow(2, attempt) * 2000;
+            this.logger.warn(`Rate limit hit, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries + 1})`);
+            control.onRateLimit?.(delay, attempt + 1);
+            this.metrics?.recordRetry(this.name, delay / 1000);
+            await this.delay(delay, control.signal);
+            continue;
+          }
+        }
+        throw error;
+      }
+    }
+    throw new Error('Max retries exceeded');
+  }
+
+  protected async getDirectionEntry(
+    from: Coordinate,
+    to: Coordinate,
+    fromIndex: number,
+    toIndex: number,
+    options: ORSDirectionsOptions,
+    includeGeometry: boolean = true,
+    control: RequestControl = {}
+  ): Promise<MatrixEntry> {
+    if (this.isOffline) {
+      return this.estimateEntry(from, to, fromIndex, toIndex, options, includeGeometry);
+    }
+
+    const cacheKey = this.cache?.buildKey(from, to, options, this.name);
+    const previous = this.cache && cacheKey ? await this.cache.get(cacheKey) : undefined;
+    // Entries cached without geometry, or before the extra_info was requested, are refetched
+    if (previous && (!includeGeometry || previous.geometry) && (options.extra_info || []).every(name => previous.extras?.[name])) {
+      return {
+        from: fromIndex,
+        to: toIndex,
+        distance: previous.distance,
+        duration: previous.duration,
+        geometry: includeGeometry ? previous.geometry : undefined,
+        extras: previous.extras,
+        cached: true
+      };
+    }
+    const cached = this.cache ? false : undefined;
+
+    try {
+      control.onPairsRequested?.(1);
+      const route = await this.getRouteWithRetry([from, to], { ...options, geometry: includeGeometry }, control);
+      const polyline = includeGeometry ? route.geometry : undefined;
+
+      if (this.cache && cacheKey) {
+        // Keep what the previous entry had that this request did not ask for
+        await this.cache.set(cacheKey, {
+          distance: route.distance,
+          duration: route.duration,
+          geometry: polyline ?? previous?.geometry,
+          extras: previous?.extras || route.extras ? { ...previous?.extras, ...route.extras } : undefined
+        });
+      }
+
+      return {
+        from: fromIndex,
+        to: toIndex,
+        distance: route.distance,
+        duration: route.duration,
+        geometry: polyline,
+        extras: route.extras,
+        cached
+      };
+    } catch (error: any) {
+      if (control.signal?.aborted || error instanceof QuotaExceededError) {
+        throw error;
+      }
+      this.logger.warn(`Failed to get directions from ${fromIndex} to ${toIndex}:`, error);
+      if (this.estimatorMode === 'fallback') {
+        return this.estimateEntry(from, to, fromIndex, toIndex, options, includeGeometry);
+      }
+      const message = error.message || String(error);
+      control.onPairFailed?.(fromIndex, toIndex, message);
+      return {
+        from: fromIndex,
+        to: toIndex,
+        distance: 999999, // 999,999 km - unreachably far
+        duration: 999999,   // 999,999 seconds - about 11.5 days
+        geometry: undefined,
+        cached,
+        error: message
+      };
+    }
+  }
+
+  protected estimateEntry(
+    from: Coordinate,
+    to: Coordinate,
+    fromIndex: number,
+    toIndex: number,
+    options: ORSDirectionsOptions,
+    includeGeometry: boolean
+  ): MatrixEntry {
+    const estimate = this.estimator.estimate(from, to, options.profile, options.units);
+    return {
+      from: fromIndex,
+      to: toIndex,
+      distance: estimate.distance,
+      duration: estimate.duration,
+      geometry: includeGeometry ? estimate.geometry : undefined,
+      estimated: true
+    };
+  }
+
+  // Converts a distance in meters to the requested ORS units
+  protected fromMeters(meters: number, units: ORSDirectionsOptions['units'] = 'km'): number {
+    switch (units) {
+      case 'm':
+        return meters;
+      case 'mi':
+        return meters / 1609.344;
+      default:
+        return meters / 1000;
+    }
+  }
+
+  protected async executeWithConcurrency<T>(
+    thunks: Array<() => Promise<T>>,
+    concurrency: number,
+    control: RequestControl = {}
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let index = 0;
+    let done = 0;
+    // Set once a worker hits an error that fails the whole batch
+    let stopped = false;
+
+    async function worker() {
+      while (true) {
+        let currentIndex: number;
+        // Stop handing out work once the caller has aborted
+        control.signal?.throwIfAborted();
+        // Atomically get the next thunk index
+        if (!stopped && index < thunks.length) {
+          currentIndex = index++;
+        } else {
+          break;
+        }
+        try {
+          const result = await thunks[currentIndex]();
+          results[currentIndex] = result;
+        } catch (e) {
+          // The quota is spent for every remaining thunk too
+          if (e instanceof QuotaExceededError) {
+            stopped = true;
+            throw e;
+          }
+          // On error, assign undefined (or you could throw, or use a default value)
+          results[currentIndex] = undefined as unknown as T;
+        }
+        control.onProgress?.(++done, thunks.length);
+      }
+    }
+
+    // Start up to 'concurrency' workers
+    const workers = Array.from({ length: concurrency }, () => worker());
+    await Promise.all(workers);
+    control.signal?.throwIfAborted();
+    return results;
+  }
+
+  protected delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
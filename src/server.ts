@@ -3,8 +3,52 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { config } from 'dotenv';
-import { VroomORS } from './index.js';
-import { VroomProblem, ORSDirectionsOptions } from './types.js';
+import { readFile } from 'fs/promises';
+import {
+  VroomORS,
+  DirectionsCache,
+  FileDirectionsCacheStore,
+  SolveJobManager,
+  solutionToGeoJSON,
+  solutionToGPX,
+  solutionToKML,
+  UnreachablePairsError,
+  InvalidProblemError,
+  StraightLineEstimator,
+  OSRMClient,
+  ValhallaClient,
+  GraphHopperClient,
+  RoutingProvider,
+  VroomSolver,
+  VroomBinarySolver,
+  ORSOptimizationSolver,
+  VroomError,
+  QuotaExceededError,
+  RestrictedZoneStore,
+  RequestScheduler,
+  Metrics,
+  TenantRegistry,
+  TenantLimitError,
+  SolveJob,
+  SolutionHistory,
+  FileSolutionStore,
+  compareSolutions
+} from './index.js';
+import {
+  VroomProblem,
+  VroomSolution,
+  ORSDirectionsOptions,
+  ProfileOptions,
+  SolveOptions,
+  VroomSolveOptions,
+  CostModelOptions,
+  SolveProgress,
+  PairFailure,
+  GeoJSONFeatureCollection,
+  ReoptimizeRequest,
+  PositionUpdate,
+  StoredSolution
+} from './types.js';
 
 config();
 
@@ -27,72 +71,1308 @@ const vroomEndpoint = process.env.VROOM_ENDPOINT || 'http://localhost:3000';
 //   process.exit(1);
 // }
 
-const vroomOrs = new VroomORS(orsApiKey, vroomEndpoint, orsBaseUrl);
+// Directions cache (disabled with DIRECTIONS_CACHE=false)
+const cacheEnabled = process.env.DIRECTIONS_CACHE !== 'false';
+const cacheFile = process.env.DIRECTIONS_CACHE_FILE;
+const directionsCache = cacheEnabled
+  ? new DirectionsCache({
+      ttl: Number(process.env.DIRECTIONS_CACHE_TTL || 0),
+      maxEntries: Number(process.env.DIRECTIONS_CACHE_SIZE || 10000),
+      store: cacheFile ? new FileDirectionsCacheStore(cacheFile) : undefined
+    })
+  : undefined;
+
+// Straight-line estimator: 'fallback' for pairs ORS cannot route, 'offline' to never call ORS
+const estimatorMode = (process.env.ORS_ESTIMATOR || 'off') as 'off' | 'fallback' | 'offline';
+const estimator = new StraightLineEstimator({
+  speeds: process.env.ESTIMATOR_SPEEDS ? JSON.parse(process.env.ESTIMATOR_SPEEDS) : undefined,
+  detourFactor: process.env.ESTIMATOR_DETOUR_FACTOR ? Number(process.env.ESTIMATOR_DETOUR_FACTOR) : undefined
+});
+
+// Additional routing providers, registered when their base URL is configured.
+// ROUTING_PROFILE_MAP maps ORS profile names per provider, e.g. {"osrm":{"driving-hgv":"truck"}}
+const profileMaps = process.env.ROUTING_PROFILE_MAP ? JSON.parse(process.env.ROUTING_PROFILE_MAP) : {};
+// Prometheus metrics, served at /metrics
+const metrics = new Metrics();
+
+const providerOptions = (name: string) => ({ cache: directionsCache, estimator, estimatorMode, profileMap: profileMaps[name], metrics });
+const providers: RoutingProvider[] = [];
+if (process.env.OSRM_BASE_URL) {
+  providers.push(new OSRMClient(process.env.OSRM_BASE_URL, {
+    ...providerOptions('osrm'),
+    ...(process.env.OSRM_TABLE_LIMIT && { tableLimit: Number(process.env.OSRM_TABLE_LIMIT) })
+  }));
+}
+if (process.env.VALHALLA_BASE_URL) {
+  providers.push(new ValhallaClient(process.env.VALHALLA_BASE_URL, providerOptions('valhalla')));
+}
+if (process.env.GRAPHHOPPER_BASE_URL || process.env.GRAPHHOPPER_API_KEY) {
+  providers.push(new GraphHopperClient(process.env.GRAPHHOPPER_BASE_URL, process.env.GRAPHHOPPER_API_KEY, providerOptions('graphhopper')));
+}
+
+// One scheduler for all ORS traffic: rate limit, daily quota and Retry-After pauses
+const orsScheduler = new RequestScheduler({
+  perSecond: process.env.ORS_RATE_PER_SECOND ? Number(process.env.ORS_RATE_PER_SECOND) : undefined,
+  burst: process.env.ORS_RATE_BURST ? Number(process.env.ORS_RATE_BURST) : undefined,
+  perDay: process.env.ORS_DAILY_QUOTA ? Number(process.env.ORS_DAILY_QUOTA) : undefined
+});
+// Queued jobs yield to requests waiting on their response
+const BACKGROUND_PRIORITY = -1;
+
+// Solver backend: 'http' posts to VROOM_ENDPOINT, 'binary' runs a local vroom, 'ors' uses ORS /optimization
+const solverBackend = process.env.VROOM_SOLVER || 'http';
+let solver: VroomSolver | undefined;
+if (solverBackend === 'binary') {
+  solver = new VroomBinarySolver({ binary: process.env.VROOM_BINARY });
+} else if (solverBackend === 'ors') {
+  solver = new ORSOptimizationSolver(orsApiKey, orsBaseUrl, orsScheduler);
+} else if (solverBackend !== 'http') {
+  console.error(`ERROR: unknown VROOM_SOLVER "${solverBackend}" (expected http, binary or ors)`);
+  process.exit(1);
+}
+
+// Default solving options, overridden by the "solver" field of a request
+const solverDefaults: VroomSolveOptions = {
+  ...(process.env.VROOM_THREADS && { threads: Number(process.env.VROOM_THREADS) }),
+  ...(process.env.VROOM_EXPLORE && { explore: Number(process.env.VROOM_EXPLORE) }),
+  ...(process.env.VROOM_TIMEOUT && { timeout: Number(process.env.VROOM_TIMEOUT) })
+};
+
+// Restricted zones, persisted to ZONES_FILE when set
+const zones = new RestrictedZoneStore(process.env.ZONES_FILE);
+await zones.load();
+
+// Default cost model (JSON), overridden by the "costModel" field of a request
+const defaultCostModel: CostModelOptions | undefined = process.env.COST_MODEL ? JSON.parse(process.env.COST_MODEL) : undefined;
+
+const vroomOrs = new VroomORS(orsApiKey, vroomEndpoint, orsBaseUrl, {
+  directionsCache,
+  estimator,
+  estimatorMode,
+  providers,
+  defaultProvider: process.env.ROUTING_PROVIDER,
+  solver,
+  zones,
+  scheduler: orsScheduler,
+  metrics,
+  ...(profileMaps.ors && { profileMap: profileMaps.ors })
+});
+
+// API keys with per-tenant limits: API_KEYS_FILE or API_KEYS holds a JSON array of
+// { name, keys, maxLocations?, maxConcurrentSolves?, dailyPairs?, admin? }. Without tenants the server is open.
+const tenants = new TenantRegistry(process.env.API_KEYS_FILE
+  ? JSON.parse(await readFile(process.env.API_KEYS_FILE, 'utf8'))
+  : process.env.API_KEYS ? JSON.parse(process.env.API_KEYS) : []);
+
+// Solution history (disabled with SOLUTION_HISTORY=false): one JSON file per solution in SOLUTIONS_DIR
+const solutionHistory = process.env.SOLUTION_HISTORY !== 'false'
+  ? new SolutionHistory(new FileSolutionStore(process.env.SOLUTIONS_DIR || './conf/solutions'))
+  : undefined;
+
+const solveJobs = new SolveJobManager(vroomOrs, {
+  maxConcurrent: Number(process.env.JOBS_MAX_CONCURRENT || 1),
+  retention: Number(process.env.JOBS_RETENTION || 3600)
+});
+const etaRiskMargin = Number(process.env.ETA_RISK_MARGIN || 600);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    version: process.env.npm_package_version || '1.0.0'
+    version: process.env.npm_package_version || '1.0.0',
+    providers: vroomOrs.providerNames,
+    solver: vroomOrs.solverName,
+    ors_quota: orsScheduler.usage
   });
 });
 
+// Prometheus metrics for routing requests, matrix builds and solves
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
+// Everything below /health and /metrics needs an API key once tenants are configured,
+// sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+app.use((req, res, next) => {
+  if (!tenants.enabled) {
+    return next();
+  }
+
+  const key = req.get('x-api-key') ?? req.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const tenant = key ? tenants.authenticate(key) : undefined;
+  if (!tenant) {
+    return res.status(401).set('WWW-Authenticate', 'Bearer').json({
+      success: false,
+      error: 'Unauthorized',
+      message: key ? 'Invalid API key' : 'Missing API key: send "Authorization: Bearer <key>" or "X-API-Key: <key>"'
+    });
+  }
+
+  res.locals.apiKey = key;
+  res.locals.tenant = tenant;
+  next();
+});
+
+// Usage and limits of the calling API key
+app.get('/usage', (req, res) => {
+  if (!tenants.enabled) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not found',
+      message: 'API keys are not configured'
+    });
+  }
+
+  res.json({
+    success: true,
+    usage: tenants.usage(res.locals.apiKey)
+  });
+});
+
+// A request admitted under its tenant's limits. Its routing requests report
+// through onPairsRequested, and release frees its solve slot and charges the
+// pairs it actually routed instead of the estimate it was admitted with.
+interface Admission {
+  onPairsRequested: (count: number) => void;
+  release: () => void;
+}
+
+// Admits a request of the given size under the calling tenant's limits.
+// Returns null once a 403 or 429 has been sent.
+function admitRequest(res: express.Response, size: { locations: number; pairs: number }, solve: boolean): Admission | null {
+  if (!res.locals.apiKey) {
+    return { onPairsRequested: () => {}, release: () => {} };
+  }
+
+  try {
+    const settle = tenants.admit(res.locals.apiKey, size, solve);
+    let pairs = 0;
+    return {
+      onPairsRequested: count => {
+        pairs += count;
+      },
+      release: () => settle(pairs)
+    };
+  } catch (error) {
+    if (!(error instanceof TenantLimitError)) {
+      throw error;
+    }
+    if (error.retryAfter !== undefined) {
+      res.set('Retry-After', String(error.retryAfter));
+    }
+    res.status(error.status).json({
+      success: false,
+      error: error.status === 403 ? 'Forbidden' : 'Too many requests',
+      message: error.message
+    });
+    return null;
+  }
+}
+
+// Stores a solution in the history and returns its id. A failure to store
+// only loses the history entry, not the response.
+async function recordSolution(
+  res: express.Response,
+  source: StoredSolution['source'],
+  problem: VroomProblem,
+  orsOptions: ORSDirectionsOptions | undefined,
+  solution: VroomSolution,
+  solveOptions: SolveOptions
+): Promise<string | undefined> {
+  if (!solutionHistory) {
+    return undefined;
+  }
+  const { provider, profileOptions, vehicleZones } = solveOptions;
+  try {
+    return (await solutionHistory.record(source, problem, orsOptions, solution, res.locals.tenant?.name, {
+      provider,
+      profileOptions,
+      vehicleZones
+    })).id;
+  } catch (error) {
+    console.warn('Failed to store solution in the history:', error);
+    return undefined;
+  }
+}
+
+// Zones are shared by all tenants, so only admin tenants may change them.
+// Returns false once a 403 has been sent.
+function requireAdmin(res: express.Response): boolean {
+  if (!tenants.enabled || res.locals.tenant?.admin) {
+    return true;
+  }
+  res.status(403).json({
+    success: false,
+    error: 'Forbidden',
+    message: 'Only admin API keys may change restricted zones'
+  });
+  return false;
+}
+
+// A job, unless it belongs to another tenant
+function findJob(id: string, res: express.Response): SolveJob | undefined {
+  const job = solveJobs.get(id);
+  return job && job.tenant === res.locals.tenant?.name ? job : undefined;
+}
+
+// Validates a solve request body and fills in defaults. Returns an error response body, or null if valid.
+function validateSolveRequest(body: any): { error: string; message: string } | null {
+  const { problem, geometry, format, unreachable } = body;
+
+  const providerError = validateProvider(body.provider);
+  if (providerError) {
+    return providerError;
+  }
+
+  if (!problem) {
+    return {
+      error: 'Missing required field: problem',
+      message: 'Request body must contain a "problem" field with VROOM problem definition'
+    };
+  }
+
+  if (!problem.vehicles || !Array.isArray(problem.vehicles) || problem.vehicles.length === 0) {
+    return {
+      error: 'Invalid problem: vehicles',
+      message: 'Problem must contain at least one vehicle'
+    };
+  }
+
+  const invalidRestrictions = problem.vehicles.find((vehicle: any) => !validRestrictions(vehicle?.restrictions));
+  if (invalidRestrictions) {
+    return {
+      error: 'Invalid problem: vehicle restrictions',
+      message: `Vehicle ${invalidRestrictions.id} restrictions must be positive length, width, height, weight and axleload numbers and a hazmat boolean`
+    };
+  }
+
+  const invalidConsumption = problem.vehicles.find((vehicle: any) => !validConsumption(vehicle?.consumption));
+  if (invalidConsumption) {
+    return {
+      error: 'Invalid problem: vehicle consumption',
+      message: `Vehicle ${invalidConsumption.id} consumption must have a non-negative perKm (kWh/km), with optional mass (kg), efficiency and recuperation (0 to 1) and battery (kWh)`
+    };
+  }
+
+  const nonHgv = problem.vehicles.find((vehicle: any) => vehicle.restrictions && vehicle.profile &&
+    (body.profileOptions?.[vehicle.profile]?.profile || vehicle.profile) !== 'driving-hgv');
+  if (nonHgv) {
+    return {
+      error: 'Invalid problem: vehicle restrictions',
+      message: `Vehicle ${nonHgv.id} has HGV restrictions, so its profile must be driving-hgv`
+    };
+  }
+
+  if (geometry !== undefined && !['eager', 'lazy', 'none'].includes(geometry)) {
+    return {
+      error: 'Invalid field: geometry',
+      message: 'geometry must be one of "eager", "lazy" or "none"'
+    };
+  }
+
+  const units = [body.orsOptions?.units, ...Object.values(body.profileOptions || {}).map((options: any) => options?.units)];
+  if (!units.every(unit => unit === undefined || ['km', 'm', 'mi'].includes(unit))) {
+    return {
+      error: 'Invalid field: units',
+      message: 'units must be one of "km", "m" or "mi"'
+    };
+  }
+
+  if (unreachable !== undefined && !['penalize', 'fail', 'estimate', 'exclude'].includes(unreachable)) {
+    return {
+      error: 'Invalid field: unreachable',
+      message: 'unreachable must be one of "penalize", "fail", "estimate" or "exclude"'
+    };
+  }
+
+  const solverError = validateSolverOptions(body.solver);
+  if (solverError) {
+    return solverError;
+  }
+
+  if (body.priority !== undefined && !Number.isInteger(body.priority)) {
+    return {
+      error: 'Invalid field: priority',
+      message: 'priority must be an integer; higher priorities get ORS requests first'
+    };
+  }
+
+  const costModelError = validateCostModel(body.costModel);
+  if (costModelError) {
+    return costModelError;
+  }
+
+  const zonesError = validateZoneReferences(body);
+  if (zonesError) {
+    return zonesError;
+  }
+
+  if (format !== undefined && !['json', 'geojson'].includes(format)) {
+    return {
+      error: 'Invalid field: format',
+      message: 'format must be one of "json" or "geojson"'
+    };
+  }
+
+  if (!problem.jobs || !Array.isArray(problem.jobs)) {
+    problem.jobs = [];
+  }
+
+  return null;
+}
+
+// Checks that a requested routing provider is registered
+function validateProvider(provider: any): { error: string; message: string } | null {
+  if (provider !== undefined && !vroomOrs.providerNames.includes(provider)) {
+    return {
+      error: 'Invalid field: provider',
+      message: `provider must be one of ${vroomOrs.providerNames.map(name => `"${name}"`).join(', ')}`
+    };
+  }
+  return null;
+}
+
+// Checks the VROOM solving options of a request
+function validateSolverOptions(options: any): { error: string; message: string } | null {
+  if (options === undefined) {
+    return null;
+  }
+  const { threads, explore, timeout } = options ?? {};
+  const valid = typeof options === 'object' && options !== null &&
+    (threads === undefined || (Number.isInteger(threads) && threads > 0)) &&
+    (explore === undefined || (Number.isInteger(explore) && explore >= 0 && explore <= 5)) &&
+    (timeout === undefined || (typeof timeout === 'number' && timeout > 0));
+  if (!valid) {
+    return {
+      error: 'Invalid field: solver',
+      message: 'solver must be an object with optional threads (positive integer), explore (0 to 5) and timeout (seconds)'
+    };
+  }
+  return null;
+}
+
+// Checks the cost model of a request: non-negative rates, at least one of them per km or per hour
+function validateCostModel(costModel: any): { error: string; message: string } | null {
+  if (costModel === undefined) {
+    return null;
+  }
+  const rate = (value: any) => value === undefined || (typeof value === 'number' && value >= 0);
+  const rates = (value: any) => value === undefined ||
+    (typeof value === 'object' && value !== null && Object.values(value).every(item => typeof item === 'number'));
+  const { perKm, perHour, tollPerKm, highwayPerKm, waytypePerKm, steepnessPerKm, scale } = costModel ?? {};
+  const valid = typeof costModel === 'object' && costModel !== null &&
+    [perKm, perHour, tollPerKm, highwayPerKm].every(rate) && rates(waytypePerKm) && rates(steepnessPerKm) &&
+    (scale === undefined || (typeof scale === 'number' && scale > 0)) &&
+    (perKm > 0 || perHour > 0);
+  if (!valid) {
+    return {
+      error: 'Invalid field: costModel',
+      message: 'costModel must set perKm or perHour, with optional tollPerKm, highwayPerKm, waytypePerKm, steepnessPerKm and scale'
+    };
+  }
+  return null;
+}
+
+// Checks the consumption model of a vehicle
+function validConsumption(consumption: any): boolean {
+  if (consumption === undefined) {
+    return true;
+  }
+  const { perKm, mass, efficiency, recuperation, battery } = consumption ?? {};
+  const number = (value: any, max: number = Infinity) => typeof value === 'number' && value >= 0 && value <= max;
+  return typeof consumption === 'object' && consumption !== null && number(perKm) &&
+    (mass === undefined || number(mass)) &&
+    (efficiency === undefined || (number(efficiency, 1) && efficiency > 0)) &&
+    (recuperation === undefined || number(recuperation, 1)) &&
+    (battery === undefined || number(battery));
+}
+
+// Checks the HGV restrictions of a vehicle
+function validRestrictions(restrictions: any): boolean {
+  if (restrictions === undefined) {
+    return true;
+  }
+  if (typeof restrictions !== 'object' || restrictions === null) {
+    return false;
+  }
+  return Object.entries(restrictions).every(([name, value]) => name === 'hazmat'
+    ? typeof value === 'boolean'
+    : ['length', 'width', 'height', 'weight', 'axleload'].includes(name) && typeof value === 'number' && value > 0);
+}
+
+// Checks that the zones referenced by avoid_zones and vehicleZones exist
+function validateZoneReferences(body: any): { error: string; message: string } | null {
+  const { orsOptions, profileOptions, vehicleZones } = body;
+  if (vehicleZones !== undefined && (typeof vehicleZones !== 'object' || vehicleZones === null ||
+    !Object.values(vehicleZones).every(Array.isArray))) {
+    return {
+      error: 'Invalid field: vehicleZones',
+      message: 'vehicleZones must map vehicle types to arrays of zone names'
+    };
+  }
+
+  const references = [
+    orsOptions?.avoid_zones,
+    ...Object.values(profileOptions || {}).map((options: any) => options?.avoid_zones),
+    ...Object.values(vehicleZones || {})
+  ].filter(names => names !== undefined);
+  if (!references.every(names => Array.isArray(names) && names.every((name: any) => typeof name === 'string'))) {
+    return {
+      error: 'Invalid field: avoid_zones',
+      message: 'avoid_zones must be an array of zone names'
+    };
+  }
+
+  const unknown = zones.findUnknown(Array.from(new Set(references.flat())));
+  if (unknown.length > 0) {
+    return {
+      error: 'Unknown restricted zones',
+      message: `No zones named ${unknown.map(name => `"${name}"`).join(', ')}; create them with PUT /zones/:name`
+    };
+  }
+  return null;
+}
+
+// Applies the requested output format to a solution
+function formatSolution(solution: VroomSolution, body: any): VroomSolution | GeoJSONFeatureCollection {
+  return body.format === 'geojson' ? solutionToGeoJSON(solution, body.problem) : solution;
+}
+
+function getSolveOptions(body: any, defaultPriority: number = 0): SolveOptions {
+  return {
+    profileOptions: body.profileOptions as ProfileOptions,
+    geometry: body.geometry as SolveOptions['geometry'],
+    instructions: body.instructions === true,
+    unreachable: body.unreachable as SolveOptions['unreachable'],
+    provider: body.provider,
+    solver: { ...solverDefaults, ...body.solver },
+    includeMatrices: body.includeMatrices === true,
+    costModel: body.costModel ?? defaultCostModel,
+    vehicleZones: body.vehicleZones,
+    elevation: body.elevation === true,
+    priority: body.priority ?? defaultPriority
+  };
+}
+
+// Sends the error response for a failed solve or evaluation
+function sendSolveError(res: express.Response, error: any): void {
+  if (error instanceof InvalidProblemError) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid problem',
+      message: error.message
+    });
+    return;
+  }
+
+  if (error instanceof UnreachablePairsError) {
+    res.status(422).json({
+      success: false,
+      error: 'Unreachable locations',
+      message: error.message,
+      unreachable: error.pairs
+    });
+    return;
+  }
+
+  if (error instanceof VroomError) {
+    // Code 2 is an input error; internal and routing errors are upstream failures
+    res.status(error.code === 2 ? 422 : 502).json({
+      success: false,
+      error: 'VROOM error',
+      message: error.message,
+      vroom_code: error.code
+    });
+    return;
+  }
+
+  if (error instanceof QuotaExceededError) {
+    res.status(429).set('Retry-After', String(Math.ceil((error.resetsAt.getTime() - Date.now()) / 1000))).json({
+      success: false,
+      error: 'ORS quota exhausted',
+      message: error.message
+    });
+    return;
+  }
+
+  console.error('VROOM solve error:', error);
+
+  res.status(500).json({
+    success: false,
+    error: 'Internal server error',
+    message: error.message || 'An error occurred while solving the VROOM problem',
+    ...(process.env.NODE_ENV === 'development' && { stack: error.stack })
+  });
+}
+
+// The 'error' event ending a stream, with the error and fields sendSolveError would respond with
+function getStreamError(error: any, fallbackMessage: string) {
+  return {
+    success: false,
+    error: error instanceof InvalidProblemError ? 'Invalid problem'
+      : error instanceof UnreachablePairsError ? 'Unreachable locations'
+      : error instanceof VroomError ? 'VROOM error'
+      : error instanceof QuotaExceededError ? 'ORS quota exhausted' : 'Internal server error',
+    message: error.message || fallbackMessage,
+    ...(error instanceof UnreachablePairsError && { unreachable: error.pairs }),
+    ...(error instanceof VroomError && { vroom_code: error.code }),
+    ...(error instanceof QuotaExceededError && { resets_at: error.resetsAt.toISOString() })
+  };
+}
+
+// Switches the response to a Server-Sent Events stream. The controller is aborted if the client disconnects.
+function openEventStream(
+  res: express.Response,
+  controller: AbortController
+): (event: string, data: unknown) => void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort(new Error('Client disconnected'));
+    }
+  });
+
+  return (event, data) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+}
+
+// Maps solve callbacks to stream events, sending a 'phase' event whenever the phase changes
+function getStreamCallbacks(send: (event: string, data: unknown) => void) {
+  let currentPhase: string | undefined;
+  const onProgress = (progress: SolveProgress) => {
+    const phase = `${progress.phase}:${progress.profile ?? ''}`;
+    if (phase !== currentPhase) {
+      currentPhase = phase;
+      send('phase', { phase: progress.phase, profile: progress.profile });
+    }
+    if (progress.total !== undefined) {
+      send('progress', progress);
+    }
+  };
+
+  return {
+    onProgress,
+    onPairFailed: (failure: PairFailure) => send('pair_failed', failure),
+    onRateLimit: (delay: number, attempt: number) => send('rate_limit', { delay, attempt })
+  };
+}
+
 // Main VROOM solve endpoint
 app.post('/solve', async (req, res) => {
+  let admission: Admission | null = null;
   try {
     const { problem, orsOptions } = req.body;
 
     // Basic validation
-    if (!problem) {
+    const validationError = validateSolveRequest(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+
+    admission = admitRequest(res, vroomOrs.getMatrixSize(problem, orsOptions, getSolveOptions(req.body)), true);
+    if (!admission) {
+      return;
+    }
+
+    console.log(`Solving VROOM problem with ${problem.vehicles.length} vehicles, ${problem.jobs.length} jobs, ${problem.shipments?.length || 0} shipments`);
+
+    const solution = await vroomOrs.solve(
+      problem as VroomProblem,
+      orsOptions as ORSDirectionsOptions,
+      { ...getSolveOptions(req.body), onPairsRequested: admission.onPairsRequested }
+    );
+    const solutionId = await recordSolution(res, 'solve', problem, orsOptions, solution, getSolveOptions(req.body));
+
+    res.json({
+      success: true,
+      solution: formatSolution(solution, req.body),
+      metadata: {
+        vehicles: problem.vehicles.length,
+        jobs: problem.jobs.length,
+        shipments: problem.shipments?.length || 0,
+        ...(solution.cache && { cache: solution.cache }),
+        ...(solution.unreachable && { unreachable_pairs: solution.unreachable.length }),
+        ...(solution.estimated && { estimated: solution.estimated }),
+        ...(solutionId && { solution_id: solutionId }),
+        solved_at: new Date().toISOString()
+      }
+    });
+
+  } catch (error: any) {
+    sendSolveError(res, error);
+  } finally {
+    admission?.release();
+  }
+});
+
+// Evaluate fixed stop sequences (vehicle steps) without optimizing
+app.post('/evaluate', async (req, res) => {
+  let admission: Admission | null = null;
+  try {
+    const { problem, orsOptions } = req.body;
+
+    const validationError = validateSolveRequest(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+
+    // Only planned legs are routed, so VROOM must not place anything itself
+    if (!problem.vehicles.every((vehicle: any) => Array.isArray(vehicle.steps))) {
       return res.status(400).json({
-        error: 'Missing required field: problem',
-        message: 'Request body must contain a "problem" field with VROOM problem definition'
+        error: 'Invalid problem: steps',
+        message: 'Every vehicle must list its tasks in order in "steps"'
       });
     }
 
-    if (!problem.vehicles || !Array.isArray(problem.vehicles) || problem.vehicles.length === 0) {
+    if (req.body.unreachable === 'exclude') {
       return res.status(400).json({
-        error: 'Invalid problem: vehicles',
-        message: 'Problem must contain at least one vehicle'
+        error: 'Invalid field: unreachable',
+        message: 'unreachable must be one of "penalize", "fail" or "estimate" when evaluating'
       });
     }
 
-    if (!problem.jobs || !Array.isArray(problem.jobs)) {
-      problem.jobs = [];
+    admission = admitRequest(res, vroomOrs.getMatrixSize(problem, orsOptions, getSolveOptions(req.body)), true);
+    if (!admission) {
+      return;
     }
 
-    console.log(`Solving VROOM problem with ${problem.vehicles.length} vehicles, ${problem.jobs.length} jobs, ${problem.shipments?.length || 0} shipments`);
+    console.log(`Evaluating fixed routes for ${problem.vehicles.length} vehicles, ${problem.jobs.length} jobs, ${problem.shipments?.length || 0} shipments`);
 
-    const solution = await vroomOrs.solve(problem as VroomProblem, orsOptions as ORSDirectionsOptions);
+    const solution = await vroomOrs.evaluate(
+      problem as VroomProblem,
+      orsOptions as ORSDirectionsOptions,
+      { ...getSolveOptions(req.body), onPairsRequested: admission.onPairsRequested }
+    );
+
+    const solutionId = await recordSolution(res, 'evaluate', problem, orsOptions, solution, getSolveOptions(req.body));
+
+    const violations = (solution.routes || [])
+      .flatMap(route => route.steps)
+      .filter(step => step.violations && step.violations.length > 0).length;
 
     res.json({
       success: true,
-      solution,
+      solution: formatSolution(solution, req.body),
       metadata: {
         vehicles: problem.vehicles.length,
         jobs: problem.jobs.length,
         shipments: problem.shipments?.length || 0,
+        steps_with_violations: violations,
+        ...(solution.cache && { cache: solution.cache }),
+        ...(solution.unreachable && { unreachable_pairs: solution.unreachable.length }),
+        ...(solution.estimated && { estimated: solution.estimated }),
+        ...(solutionId && { solution_id: solutionId }),
+        evaluated_at: new Date().toISOString()
+      }
+    });
+
+  } catch (error: any) {
+    sendSolveError(res, error);
+  } finally {
+    admission?.release();
+  }
+});
+
+// Re-optimize a dispatched solution with new tasks, keeping completed and in-progress steps.
+// The previous problem and solution come from the body or from a finished job (job_id).
+app.post('/reoptimize', async (req, res) => {
+  let admission: Admission | null = null;
+  try {
+    const { job_id, orsOptions } = req.body;
+
+    if (job_id !== undefined) {
+      const job = findJob(job_id, res);
+      if (!job?.solution) {
+        return res.status(404).json({
+          success: false,
+          error: 'Not found',
+          message: `Job ${job_id} not found or not finished`
+        });
+      }
+      req.body.problem = solveJobs.getProblem(job_id);
+      req.body.solution = job.solution;
+    }
+
+    const validationError = validateSolveRequest(req.body);
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+
+    const { problem, solution, vehicles, time, jobs, shipments } = req.body;
+    if (!solution || !Array.isArray(solution.routes)) {
+      return res.status(400).json({
+        error: 'Missing required field: solution',
+        message: 'Request body must contain the previous "solution" (or a "job_id")'
+      });
+    }
+
+    const validVehicles = vehicles === undefined || (Array.isArray(vehicles) && vehicles.every((state: any) =>
+      typeof state?.id === 'number' && Number.isInteger(state.completed_steps) && state.completed_steps >= 0
+    ));
+    if (!validVehicles) {
+      return res.status(400).json({
+        error: 'Invalid field: vehicles',
+        message: 'vehicles must be an array of { id, completed_steps, position? }'
+      });
+    }
+
+    if ((jobs !== undefined && !Array.isArray(jobs)) || (shipments !== undefined && !Array.isArray(shipments))) {
+      return res.status(400).json({
+        error: 'Invalid field: jobs or shipments',
+        message: 'jobs and shipments must be arrays of new tasks'
+      });
+    }
+
+    if (time !== undefined && typeof time !== 'number') {
+      return res.status(400).json({
+        error: 'Invalid field: time',
+        message: 'time must be a number on the clock of the solution arrivals'
+      });
+    }
+
+    const merged = { ...problem, jobs: [...problem.jobs, ...(jobs || [])], shipments: [...(problem.shipments || []), ...(shipments || [])] };
+    admission = admitRequest(res, vroomOrs.getMatrixSize(merged, orsOptions, getSolveOptions(req.body)), true);
+    if (!admission) {
+      return;
+    }
+
+    console.log(`Re-optimizing ${problem.vehicles.length} vehicles with ${jobs?.length || 0} new jobs, ${shipments?.length || 0} new shipments`);
+
+    const result = await vroomOrs.reoptimize(
+      { problem, solution, vehicles, time, jobs, shipments } as ReoptimizeRequest,
+      orsOptions as ORSDirectionsOptions,
+      { ...getSolveOptions(req.body), onPairsRequested: admission.onPairsRequested }
+    );
+    const solutionId = await recordSolution(res, 'reoptimize', merged, orsOptions, result.solution, getSolveOptions(req.body));
+
+    res.json({
+      success: true,
+      solution: formatSolution(result.solution, { ...req.body, problem: merged }),
+      diff: result.diff,
+      metadata: {
+        vehicles: problem.vehicles.length,
+        new_jobs: jobs?.length || 0,
+        new_shipments: shipments?.length || 0,
+        ...(result.solution.cache && { cache: result.solution.cache }),
+        ...(result.solution.unreachable && { unreachable_pairs: result.solution.unreachable.length }),
+        ...(solutionId && { solution_id: solutionId }),
         solved_at: new Date().toISOString()
       }
     });
 
   } catch (error: any) {
-    console.error('VROOM solve error:', error);
+    sendSolveError(res, error);
+  } finally {
+    admission?.release();
+  }
+});
 
-    res.status(500).json({
+// Streaming solve: reports progress as Server-Sent Events, ending with the solution
+app.post('/solve/stream', async (req, res) => {
+  const { problem, orsOptions } = req.body;
+
+  const validationError = validateSolveRequest(req.body);
+  if (validationError) {
+    return res.status(400).json(validationError);
+  }
+
+  let admission: Admission | null;
+  try {
+    admission = admitRequest(res, vroomOrs.getMatrixSize(problem, orsOptions, getSolveOptions(req.body)), true);
+  } catch (error) {
+    return sendSolveError(res, error);
+  }
+  if (!admission) {
+    return;
+  }
+
+  const controller = new AbortController();
+  const send = openEventStream(res, controller);
+
+  try {
+    console.log(`Streaming solve for VROOM problem with ${problem.vehicles.length} vehicles, ${problem.jobs.length} jobs, ${problem.shipments?.length || 0} shipments`);
+
+    const solution = await vroomOrs.solve(problem as VroomProblem, orsOptions as ORSDirectionsOptions, {
+      ...getSolveOptions(req.body),
+      ...getStreamCallbacks(send),
+      onPairsRequested: admission.onPairsRequested,
+      signal: controller.signal
+    });
+    const solutionId = await recordSolution(res, 'solve', problem, orsOptions, solution, getSolveOptions(req.body));
+
+    send('solution', {
+      success: true,
+      solution: formatSolution(solution, req.body),
+      metadata: {
+        vehicles: problem.vehicles.length,
+        jobs: problem.jobs.length,
+        shipments: problem.shipments?.length || 0,
+        ...(solution.cache && { cache: solution.cache }),
+        ...(solution.unreachable && { unreachable_pairs: solution.unreachable.length }),
+        ...(solution.estimated && { estimated: solution.estimated }),
+        ...(solutionId && { solution_id: solutionId }),
+        solved_at: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      console.error('VROOM solve error:', error);
+      send('error', getStreamError(error, 'An error occurred while solving the VROOM problem'));
+    }
+  } finally {
+    admission.release();
+  }
+
+  res.end();
+});
+
+// Asynchronous solve: returns a job id immediately
+app.post('/jobs', (req, res) => {
+  const { problem, orsOptions } = req.body;
+
+  const validationError = validateSolveRequest(req.body);
+  if (validationError) {
+    return res.status(400).json(validationError);
+  }
+
+  const solveOptions = getSolveOptions(req.body, BACKGROUND_PRIORITY);
+  let admission: Admission | null;
+  try {
+    admission = admitRequest(res, vroomOrs.getMatrixSize(problem, orsOptions, solveOptions), true);
+  } catch (error) {
+    return sendSolveError(res, error);
+  }
+  if (!admission) {
+    return;
+  }
+
+  const job = solveJobs.submit(problem as VroomProblem, orsOptions as ORSDirectionsOptions, {
+    ...solveOptions,
+    onPairsRequested: admission.onPairsRequested
+  }, {
+    tenant: res.locals.tenant?.name,
+    // A cancelled solve keeps its slot until it stops requesting routes
+    onSettled: admission.release,
+    onFinish: async finished => {
+      if (finished.state === 'done' && finished.solution) {
+        finished.solution_id = await recordSolution(res, 'job', problem, orsOptions, finished.solution, solveOptions);
+      }
+    }
+  });
+  console.log(`Queued solve job ${job.id} with ${problem.vehicles.length} vehicles, ${problem.jobs.length} jobs, ${problem.shipments?.length || 0} shipments`);
+
+  res.status(202).location(`/jobs/${job.id}`).json({
+    success: true,
+    job
+  });
+});
+
+app.get('/jobs/:id', (req, res) => {
+  const job = findJob(req.params.id, res);
+  if (!job) {
+    return res.status(404).json({
       success: false,
+      error: 'Not found',
+      message: `Job ${req.params.id} not found`
+    });
+  }
+
+  const format = req.query.format;
+  if (format !== undefined && format !== 'json' && format !== 'geojson') {
+    return res.status(400).json({
+      error: 'Invalid query parameter: format',
+      message: 'format must be one of "json" or "geojson"'
+    });
+  }
+
+  res.json({
+    success: true,
+    job: job.solution
+      ? { ...job, solution: formatSolution(job.solution, { format, problem: solveJobs.getProblem(job.id) }) }
+      : job
+  });
+});
+
+// Export a finished job's routes for navigation devices and Google Earth
+app.get('/jobs/:id/export', (req, res) => {
+  const job = findJob(req.params.id, res);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not found',
+      message: `Job ${req.params.id} not found`
+    });
+  }
+
+  const { format, vehicle, time_origin } = req.query;
+  if (format !== 'gpx' && format !== 'kml') {
+    return res.status(400).json({
+      error: 'Invalid query parameter: format',
+      message: 'format must be one of "gpx" or "kml"'
+    });
+  }
+
+  if (job.state !== 'done' || !job.solution) {
+    return res.status(409).json({
+      success: false,
+      error: 'Job not finished',
+      message: `Job ${job.id} is ${job.state}; only finished jobs can be exported`
+    });
+  }
+
+  const options = {
+    vehicle: vehicle !== undefined ? Number(vehicle) : undefined,
+    timeOrigin: typeof time_origin === 'string' ? Date.parse(time_origin) / 1000 : undefined
+  };
+  if ((options.vehicle !== undefined && isNaN(options.vehicle)) || (options.timeOrigin !== undefined && isNaN(options.timeOrigin))) {
+    return res.status(400).json({
+      error: 'Invalid query parameters',
+      message: 'vehicle must be a vehicle id and time_origin an ISO 8601 timestamp'
+    });
+  }
+
+  const problem = solveJobs.getProblem(job.id);
+  const filename = `${job.id}${options.vehicle !== undefined ? `-vehicle-${options.vehicle}` : ''}.${format}`;
+
+  res
+    .type(format === 'gpx' ? 'application/gpx+xml' : 'application/vnd.google-earth.kml+xml')
+    .attachment(filename)
+    .send(format === 'gpx'
+      ? solutionToGPX(job.solution, problem, options)
+      : solutionToKML(job.solution, problem, options));
+});
+
+// Recompute a vehicle's remaining arrivals of a finished job from its GPS position.
+// time is on the clock of the solution arrivals, or an ISO 8601 timestamp (less time_origin).
+app.post('/jobs/:id/eta', async (req, res) => {
+  try {
+    const job = findJob(req.params.id, res);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not found',
+        message: `Job ${req.params.id} not found`
+      });
+    }
+
+    if (job.state !== 'done' || !job.solution) {
+      return res.status(409).json({
+        success: false,
+        error: 'Job not finished',
+        message: `Job ${job.id} is ${job.state}; arrivals can only be updated for finished jobs`
+      });
+    }
+
+    const { orsOptions, solveOptions } = solveJobs.getOptions(job.id)!;
+    await sendEta(req, res, `job ${job.id}`, solveJobs.getProblem(job.id)!, job.solution, orsOptions, solveOptions);
+
+  } catch (error: any) {
+    sendSolveError(res, error);
+  }
+});
+
+// Validates an ETA request body and responds with the vehicle's updated arrivals
+async function sendEta(
+  req: express.Request,
+  res: express.Response,
+  owner: string,
+  problem: VroomProblem,
+  solution: VroomSolution,
+  orsOptions: ORSDirectionsOptions | undefined,
+  routing: StoredSolution['routing']
+): Promise<void> {
+  const { vehicle, position, time, time_origin, completed_steps, risk_margin } = req.body;
+  const validPosition = Array.isArray(position) && position.length === 2 && position.every((value: any) => typeof value === 'number');
+  if (typeof vehicle !== 'number' || !validPosition) {
+    res.status(400).json({
+      error: 'Missing required fields: vehicle and position',
+      message: 'Request body must contain a vehicle id and its position as [longitude, latitude]'
+    });
+    return;
+  }
+
+  const timeOrigin = time_origin !== undefined ? Date.parse(time_origin) / 1000 : 0;
+  const clock = typeof time === 'string' ? Date.parse(time) / 1000 - timeOrigin : time;
+  if (typeof clock !== 'number' || isNaN(clock)) {
+    res.status(400).json({
+      error: 'Invalid field: time',
+      message: 'time must be a number on the clock of the solution arrivals or an ISO 8601 timestamp, and time_origin an ISO 8601 timestamp'
+    });
+    return;
+  }
+
+  if ((completed_steps !== undefined && (!Number.isInteger(completed_steps) || completed_steps < 0))
+    || (risk_margin !== undefined && (typeof risk_margin !== 'number' || risk_margin < 0))) {
+    res.status(400).json({
+      error: 'Invalid fields: completed_steps or risk_margin',
+      message: 'completed_steps must be a non-negative integer and risk_margin a number of seconds'
+    });
+    return;
+  }
+
+  if (!solution.routes?.some(route => route.vehicle === vehicle)) {
+    res.status(404).json({
+      success: false,
+      error: 'Not found',
+      message: `Vehicle ${vehicle} has no route in ${owner}`
+    });
+    return;
+  }
+
+  const eta = await vroomOrs.updateEta(
+    problem,
+    solution,
+    { vehicle, position, time: clock, completed_steps } as PositionUpdate,
+    orsOptions,
+    { provider: routing?.provider, profileOptions: routing?.profileOptions, vehicleZones: routing?.vehicleZones },
+    risk_margin ?? etaRiskMargin
+  );
+
+  res.json({
+    success: true,
+    eta
+  });
+}
+
+app.delete('/jobs/:id', (req, res) => {
+  if (!findJob(req.params.id, res) || !solveJobs.cancel(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not found',
+      message: `Job ${req.params.id} not found`
+    });
+  }
+
+  res.json({
+    success: true,
+    job: solveJobs.get(req.params.id) ?? null
+  });
+});
+
+// Solution history: solutions of /solve, /evaluate, /reoptimize and jobs, newest first
+app.get('/solutions', async (req, res) => {
+  if (!solutionHistory) {
+    return sendHistoryDisabled(res);
+  }
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return res.status(400).json({
+      error: 'Invalid query parameter: limit',
+      message: 'limit must be a positive integer'
+    });
+  }
+
+  const solutions = await solutionHistory.list({
+    tenant: res.locals.tenant?.name,
+    input_hash: typeof req.query.input_hash === 'string' ? req.query.input_hash : undefined,
+    limit
+  });
+  res.json({
+    success: true,
+    solutions
+  });
+});
+
+app.get('/solutions/:id', async (req, res) => {
+  if (!solutionHistory) {
+    return sendHistoryDisabled(res);
+  }
+
+  const format = req.query.format;
+  if (format !== undefined && format !== 'json' && format !== 'geojson') {
+    return res.status(400).json({
+      error: 'Invalid query parameter: format',
+      message: 'format must be one of "json" or "geojson"'
+    });
+  }
+
+  const record = await solutionHistory.get(req.params.id, res.locals.tenant?.name);
+  if (!record) {
+    return sendSolutionNotFound(res, req.params.id);
+  }
+
+  res.json({
+    success: true,
+    solution: { ...record, solution: formatSolution(record.solution, { format, problem: record.problem }) }
+  });
+});
+
+// Compares the solution with another: totals from :id to :other and the tasks that changed vehicle
+app.get('/solutions/:id/compare/:other', async (req, res) => {
+  if (!solutionHistory) {
+    return sendHistoryDisabled(res);
+  }
+
+  const tenant = res.locals.tenant?.name;
+  const [from, to] = await Promise.all([solutionHistory.get(req.params.id, tenant), solutionHistory.get(req.params.other, tenant)]);
+  if (!from || !to) {
+    return sendSolutionNotFound(res, from ? req.params.other : req.params.id);
+  }
+
+  res.json({
+    success: true,
+    comparison: compareSolutions(from, to)
+  });
+});
+
+// Recompute a vehicle's remaining arrivals of a stored solution, as for /jobs/:id/eta.
+// Jobs are removed after JOBS_RETENTION; their solution_id stays usable here.
+app.post('/solutions/:id/eta', async (req, res) => {
+  if (!solutionHistory) {
+    return sendHistoryDisabled(res);
+  }
+
+  try {
+    const record = await solutionHistory.get(req.params.id, res.locals.tenant?.name);
+    if (!record) {
+      return sendSolutionNotFound(res, req.params.id);
+    }
+
+    await sendEta(req, res, `solution ${record.id}`, record.problem, record.solution, record.orsOptions, record.routing);
+
+  } catch (error: any) {
+    sendSolveError(res, error);
+  }
+});
+
+app.delete('/solutions/:id', async (req, res) => {
+  if (!solutionHistory) {
+    return sendHistoryDisabled(res);
+  }
+
+  if (!await solutionHistory.delete(req.params.id, res.locals.tenant?.name)) {
+    return sendSolutionNotFound(res, req.params.id);
+  }
+
+  res.json({
+    success: true
+  });
+});
+
+function sendHistoryDisabled(res: express.Response): void {
+  res.status(404).json({
+    success: false,
+    error: 'Not found',
+    message: 'The solution history is disabled'
+  });
+}
+
+function sendSolutionNotFound(res: express.Response, id: string): void {
+  res.status(404).json({
+    success: false,
+    error: 'Not found',
+    message: `Solution ${id} not found`
+  });
+}
+
+// Restricted zones: named polygons requests avoid through avoid_zones or vehicleZones
+app.get('/zones', (req, res) => {
+  res.json({
+    success: true,
+    zones: zones.list()
+  });
+});
+
+app.get('/zones/:name', (req, res) => {
+  const zone = zones.get(req.params.name);
+  if (!zone) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not found',
+      message: `Zone ${req.params.name} not found`
+    });
+  }
+
+  res.json({
+    success: true,
+    zone
+  });
+});
+
+// Create or replace a zone from a GeoJSON Polygon or MultiPolygon (or a Feature wrapping one)
+app.put('/zones/:name', async (req, res) => {
+  if (!requireAdmin(res)) {
+    return;
+  }
+
+  try {
+    const { description } = req.body;
+    const geometry = req.body.geometry?.type === 'Feature' ? req.body.geometry.geometry : req.body.geometry;
+    const depth = geometry?.type === 'Polygon' ? 3 : geometry?.type === 'MultiPolygon' ? 4 : 0;
+    if (depth === 0 || !isCoordinateArray(geometry.coordinates, depth)) {
+      return res.status(400).json({
+        error: 'Invalid field: geometry',
+        message: 'geometry must be a GeoJSON Polygon or MultiPolygon'
+      });
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid field: description',
+        message: 'description must be a string'
+      });
+    }
+
+    const created = !zones.get(req.params.name);
+    const zone = await zones.set(req.params.name, { type: geometry.type, coordinates: geometry.coordinates }, description);
+    res.status(created ? 201 : 200).json({
+      success: true,
+      zone
+    });
+
+  } catch (error: any) {
+    console.error('Error saving zone:', error);
+    res.status(500).json({
       error: 'Internal server error',
-      message: error.message || 'An error occurred while solving the VROOM problem',
+      message: error.message || 'An error occurred while saving the zone',
       ...(process.env.NODE_ENV === 'development' && { stack: error.stack })
     });
   }
 });
 
+app.delete('/zones/:name', async (req, res) => {
+  if (!requireAdmin(res)) {
+    return;
+  }
+
+  if (!await zones.delete(req.params.name)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Not found',
+      message: `Zone ${req.params.name} not found`
+    });
+  }
+
+  res.json({
+    success: true
+  });
+});
+
+// Whether a value is an array nested `depth` levels deep ending in [lng, lat] positions
+function isCoordinateArray(value: any, depth: number): boolean {
+  if (depth === 1) {
+    return Array.isArray(value) && value.length >= 2 && value.every(item => typeof item === 'number');
+  }
+  return Array.isArray(value) && value.length > 0 && value.every(item => isCoordinateArray(item, depth - 1));
+}
+
 // Get matrix only (without solving VROOM)
 app.post('/matrix', async (req, res) => {
+  let admission: Admission | null = null;
   try {
-    const { locations, orsOptions } = req.body;
+    const { locations, orsOptions, provider } = req.body;
 
     if (!locations || !Array.isArray(locations) || locations.length === 0) {
       return res.status(400).json({
@@ -101,11 +1381,23 @@ app.post('/matrix', async (req, res) => {
       });
     }
 
+    const providerError = validateProvider(provider) || validateZoneReferences({ orsOptions });
+    if (providerError) {
+      return res.status(400).json(providerError);
+    }
+
+    admission = admitRequest(res, { locations: locations.length, pairs: locations.length * locations.length }, false);
+    if (!admission) {
+      return;
+    }
+
     console.log(`Creating matrix for ${locations.length} locations`);
 
-    const matrix = await vroomOrs.getMatrix(
+    const { cache, ...matrix } = await vroomOrs.getMatrix(
       locations.map((loc: [number, number]) => ({ lat: loc[1], lng: loc[0] })),
-      orsOptions as ORSDirectionsOptions
+      orsOptions as ORSDirectionsOptions,
+      { onPairsRequested: admission.onPairsRequested },
+      provider
     );
 
     res.json({
@@ -114,20 +1406,85 @@ app.post('/matrix', async (req, res) => {
       metadata: {
         locations: locations.length,
         matrix_size: `${locations.length}x${locations.length}`,
+        ...(cache && { cache }),
         created_at: new Date().toISOString()
       }
     });
 
   } catch (error: any) {
-    console.error('Matrix creation error:', error);
+    sendSolveError(res, error);
+  } finally {
+    admission?.release();
+  }
+});
 
-    res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-      message: error.message || 'An error occurred while creating the matrix',
-      ...(process.env.NODE_ENV === 'development' && { stack: error.stack })
+// Streaming matrix: reports progress as Server-Sent Events, ending with the matrix
+app.post('/matrix/stream', async (req, res) => {
+  const { locations, orsOptions, provider } = req.body;
+
+  if (!locations || !Array.isArray(locations) || locations.length === 0) {
+    return res.status(400).json({
+      error: 'Missing required field: locations',
+      message: 'Request body must contain a "locations" array with coordinate pairs'
+    });
+  }
+
+  const providerError = validateProvider(provider) || validateZoneReferences({ orsOptions });
+  if (providerError) {
+    return res.status(400).json(providerError);
+  }
+
+  let admission: Admission | null;
+  try {
+    admission = admitRequest(res, { locations: locations.length, pairs: locations.length * locations.length }, false);
+  } catch (error) {
+    return sendSolveError(res, error);
+  }
+  if (!admission) {
+    return;
+  }
+
+  const controller = new AbortController();
+  const send = openEventStream(res, controller);
+
+  try {
+    console.log(`Streaming matrix for ${locations.length} locations`);
+    const profile = (orsOptions as ORSDirectionsOptions | undefined)?.profile || 'driving-car';
+    const callbacks = getStreamCallbacks(send);
+
+    const { cache, ...matrix } = await vroomOrs.getMatrix(
+      locations.map((loc: [number, number]) => ({ lat: loc[1], lng: loc[0] })),
+      orsOptions as ORSDirectionsOptions,
+      {
+        signal: controller.signal,
+        onProgress: (done, total) => callbacks.onProgress({ phase: 'building_matrix', profile, done, total }),
+        onPairFailed: (from, to, error) => callbacks.onPairFailed({ profile, from, to, error }),
+        onRateLimit: callbacks.onRateLimit,
+        onPairsRequested: admission.onPairsRequested
+      },
+      provider
+    );
+
+    send('matrix', {
+      success: true,
+      matrix,
+      metadata: {
+        locations: locations.length,
+        matrix_size: `${locations.length}x${locations.length}`,
+        ...(cache && { cache }),
+        created_at: new Date().toISOString()
+      }
     });
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      console.error('Matrix creation error:', error);
+      send('error', getStreamError(error, 'An error occurred while creating the matrix'));
+    }
+  } finally {
+    admission.release();
   }
+
+  res.end();
 });
 
 // Error handling middleware
@@ -146,7 +1503,7 @@ app.use((req, res) => {
     success: false,
     error: 'Not found',
     message: `Endpoint ${req.method} ${req.path} not found`,
-    availableEndpoints: ['/health', '/solve', '/matrix']
+    availableEndpoints: ['/health', '/metrics', '/usage', '/solve', '/solve/stream', '/evaluate', '/reoptimize', '/jobs', '/jobs/:id', '/jobs/:id/export', '/jobs/:id/eta', '/solutions', '/solutions/:id', '/solutions/:id/eta', '/solutions/:id/compare/:other', '/zones', '/zones/:name', '/matrix', '/matrix/stream']
   });
 });
 
@@ -156,7 +1513,10 @@ app.listen(port, () => {
   console.log(`🏥 Health check: http://localhost:${port}/health`);
   console.log(`🗺️  ORS API Key: ${orsApiKey ? '✅ Configured' : '❌ Missing'}`);
   console.log(`🌐 ORS Base URL: ${orsBaseUrl || 'https://api.openrouteservice.org (default)'}`);
-  console.log(`🚛 VROOM Endpoint: ${vroomEndpoint}`);
+  console.log(`🚛 VROOM solver: ${solverBackend === 'http' ? vroomEndpoint : solverBackend}`);
+  console.log(`🧭 Routing providers: ${vroomOrs.providerNames.join(', ')} (default: ${vroomOrs.getProvider().name})`);
+  console.log(`📏 Straight-line estimator: ${estimatorMode}`);
+  console.log(`💾 Directions cache: ${cacheEnabled ? (cacheFile ? `✅ ${cacheFile}` : '✅ In-memory') : '❌ Disabled'}`);
 });
 
 export default app;
\ No newline at end of file
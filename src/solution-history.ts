@@ -0,0 +1,247 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import {
+  ComparedValue,
+  Logger,
+  ORSDirectionsOptions,
+  SolutionComparison,
+  StoredSolution,
+  StoredSolutionSummary,
+  VroomProblem,
+  VroomSolution
+} from './types.js';
+import { getTaskAssignments } from './solution-utils.js';
+
+export interface SolutionStore {
+  save(record: StoredSolution): Promise<void>;
+  get(id: string): Promise<StoredSolution | undefined>;
+  list(): Promise<StoredSolutionSummary[]>; // oldest first
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SolutionListFilter {
+  tenant?: string;
+  input_hash?: string;
+  limit?: number; // newest first
+}
+
+/**
+ * Keeps each solution as <id>.json in a directory, with an index.json of
+ * their summaries so listings do not read every solution.
+ */
+export class FileSolutionStore implements SolutionStore {
+  private directory: string;
+  private index: StoredSolutionSummary[] | null = null;
+  private loading: Promise<StoredSolutionSummary[]> | null = null;
+  // Serializes index writes so concurrent saves do not lose entries
+  private writing: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  constructor(directory: string, logger: Logger = console) {
+    this.directory = directory;
+    this.logger = logger;
+  }
+
+  async save(record: StoredSolution): Promise<void> {
+    const index = await this.load();
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.writeFile(this.recordPath(record.id), JSON.stringify(record));
+    index.push(summarize(record));
+    await this.saveIndex();
+  }
+
+  async get(id: string): Promise<StoredSolution | undefined> {
+    const index = await this.load();
+    if (!index.some(summary => summary.id === id)) {
+      return undefined;
+    }
+    return JSON.parse(await fs.readFile(this.recordPath(id), 'utf8'));
+  }
+
+  async list(): Promise<StoredSolutionSummary[]> {
+    return [...await this.load()];
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = await this.load();
+    const position = index.findIndex(summary => summary.id === id);
+    if (position < 0) {
+      return false;
+    }
+    index.splice(position, 1);
+    await this.saveIndex();
+    await fs.rm(this.recordPath(id), { force: true });
+    return true;
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private load(): Promise<StoredSolutionSummary[]> {
+    if (this.index) {
+      return Promise.resolve(this.index);
+    }
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const content = await fs.readFile(path.join(this.directory, 'index.json'), 'utf8');
+          this.index = JSON.parse(content);
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            this.logger.warn(`Failed to read solution index from ${this.directory}:`, error);
+          }
+          this.index = [];
+        }
+        return this.index!;
+      })();
+    }
+    return this.loading;
+  }
+
+  private saveIndex(): Promise<void> {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.writeFile(path.join(this.directory, 'index.json'), JSON.stringify(this.index)));
+    return this.writing;
+  }
+
+  private async writeFile(filePath: string, content: string): Promise<void> {
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, content);
+    await fs.rename(tmpPath, filePath);
+  }
+}
+
+/**
+ * Records solved problems with an id, timestamp and input hash so runs can
+ * be audited and compared later.
+ */
+export class SolutionHistory {
+  private store: SolutionStore;
+
+  constructor(store: SolutionStore) {
+    this.store = store;
+  }
+
+  async record(
+    source: StoredSolution['source'],
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions = {},
+    solution: VroomSolution,
+    tenant?: string,
+    routing?: StoredSolution['routing']
+  ): Promise<StoredSolution> {
+    const record: StoredSolution = {
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+      input_hash: hashInput(problem, orsOptions),
+      source,
+      ...(tenant !== undefined && { tenant }),
+      problem,
+      orsOptions,
+      ...(routing && { routing }),
+      solution
+    };
+    await this.store.save(record);
+    return record;
+  }
+
+  async list(filter: SolutionListFilter = {}): Promise<StoredSolutionSummary[]> {
+    const summaries = (await this.store.list())
+      .filter(summary => summary.tenant === filter.tenant)
+      .filter(summary => filter.input_hash === undefined || summary.input_hash === filter.input_hash)
+      .reverse();
+    return filter.limit !== undefined ? summaries.slice(0, filter.limit) : summaries;
+  }
+
+  // The stored solution, unless it belongs to another tenant
+  async get(id: string, tenant?: string): Promise<StoredSolution | undefined> {
+    const record = await this.store.get(id);
+    return record && record.tenant === tenant ? record : undefined;
+  }
+
+  async delete(id: string, tenant?: string): Promise<boolean> {
+    return (await this.get(id, tenant)) !== undefined && this.store.delete(id);
+  }
+}
+
+/**
+ * Compares two stored solutions: totals from the first to the second, and
+ * the jobs and shipments of both problems served by a different vehicle.
+ */
+export function compareSolutions(from: StoredSolution, to: StoredSolution): SolutionComparison {
+  const compare = (read: (solution: VroomSolution) => number | undefined): ComparedValue => {
+    const before = read(from.solution) ?? 0;
+    const after = read(to.solution) ?? 0;
+    return { from: before, to: after, change: after - before };
+  };
+
+  const before = getTaskAssignments(from.solution, from.problem);
+  const after = getTaskAssignments(to.solution, to.problem);
+  const changed: SolutionComparison['changed_vehicle'] = [];
+  const tasks = (problem: VroomProblem) => new Set([
+    ...problem.jobs.map(job => `job:${job.id}`),
+    ...(problem.shipments || []).map(shipment => `shipment:${shipment.id}`)
+  ]);
+  const toTasks = tasks(to.problem);
+  for (const key of tasks(from.problem)) {
+    const fromVehicle = before.get(key) ?? null;
+    const toVehicle = after.get(key) ?? null;
+    if (toTasks.has(key) && fromVehicle !== toVehicle) {
+      const [type, id] = key.split(':');
+      changed.push({ type: type as 'job' | 'shipment', id: Number(id), from_vehicle: fromVehicle, to_vehicle: toVehicle });
+    }
+  }
+
+  return {
+    from: from.id,
+    to: to.id,
+    same_input: from.input_hash === to.input_hash,
+    cost: compare(solution => solution.summary?.cost),
+    distance: compare(solution => solution.summary?.distance),
+    duration: compare(solution => solution.summary?.duration),
+    unassigned: compare(solution => solution.summary?.unassigned),
+    routes: compare(solution => solution.summary?.routes),
+    changed_vehicle: changed
+  };
+}
+
+function summarize(record: StoredSolution): StoredSolutionSummary {
+  const { summary } = record.solution;
+  return {
+    id: record.id,
+    created_at: record.created_at,
+    input_hash: record.input_hash,
+    source: record.source,
+    ...(record.tenant !== undefined && { tenant: record.tenant }),
+    vehicles: record.problem.vehicles.length,
+    jobs: record.problem.jobs.length,
+    shipments: record.problem.shipments?.length ?? 0,
+    summary: {
+      cost: summary?.cost ?? 0,
+      routes: summary?.routes ?? 0,
+      unassigned: summary?.unassigned ?? 0,
+      duration: summary?.duration ?? 0,
+      ...(summary?.distance !== undefined && { distance: summary.distance })
+    }
+  };
+}
+
+// Hashes the problem and options independently of key order
+function hashInput(problem: VroomProblem, orsOptions: ORSDirectionsOptions): string {
+  const canonical = (value: any): string => {
+    if (Array.isArray(value)) {
+      return `[${value.map(canonical).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort()
+        .filter(key => value[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${canonical(value[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value);
+  };
+  return createHash('sha256').update(canonical({ problem, orsOptions })).digest('hex');
+}
@@ -0,0 +1,53 @@
+import polyline from '@mapbox/polyline';
+import { VroomProblem, VroomSolution, VroomStep } from './types.js';
+
+export interface StepTask {
+  shipment?: number; // id of the shipment a pickup/delivery step belongs to
+  description?: string;
+}
+
+// Decodes a route polyline into [lng, lat] pairs (polylines decode to [lat, lng])
+export function decodeGeometry(geometry: string): Array<[number, number]> {
+  return polyline.decode(geometry).map(([lat, lng]) => [lng, lat]);
+}
+
+// Looks up the job or shipment task a step refers to in the original problem
+export function findStepTask(step: VroomStep, problem?: VroomProblem): StepTask | undefined {
+  if (!problem || step.id === undefined) {
+    return undefined;
+  }
+
+  if (step.type === 'job') {
+    const job = problem.jobs.find(j => j.id === step.id);
+    return job && { description: job.description };
+  }
+
+  if (step.type === 'pickup' || step.type === 'delivery') {
+    for (const shipment of problem.shipments || []) {
+      const task = step.type === 'pickup' ? shipment.pickup : shipment.delivery;
+      if (task?.id === step.id) {
+        return { shipment: shipment.id, description: task.description };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Maps 'job:<id>' and 'shipment:<id>' keys to the vehicle serving the task
+export function getTaskAssignments(solution: VroomSolution, problem: VroomProblem): Map<string, number> {
+  const assignments = new Map<string, number>();
+  for (const route of solution.routes || []) {
+    for (const step of route.steps) {
+      if (step.type === 'job' && step.id !== undefined) {
+        assignments.set(`job:${step.id}`, route.vehicle);
+      } else if (step.type === 'pickup' || step.type === 'delivery') {
+        const shipment = findStepTask(step, problem)?.shipment;
+        if (shipment !== undefined) {
+          assignments.set(`shipment:${shipment}`, route.vehicle);
+        }
+      }
+    }
+  }
+  return assignments;
+}
@@ -0,0 +1,216 @@
+import { randomUUID } from 'crypto';
+import { VroomORS } from './vroom-ors.js';
+import { UnreachablePairsError, VroomError } from './errors.js';
+import {
+  ORSDirectionsOptions,
+  SolveOptions,
+  SolveProgress,
+  UnreachablePair,
+  VroomProblem,
+  VroomSolution
+} from './types.js';
+
+export type SolveJobState = 'queued' | 'building_matrix' | 'solving' | 'done' | 'failed' | 'cancelled';
+
+export interface SolveJob {
+  id: string;
+  state: SolveJobState;
+  created_at: string;
+  updated_at: string;
+  progress?: SolveProgress;
+  solution?: VroomSolution;
+  error?: string;
+  unreachable?: UnreachablePair[]; // set when the job failed on unreachable locations
+  vroom_code?: number; // set when the job failed on a VROOM error
+  expires_at?: string; // set once the job has finished
+  tenant?: string; // the tenant that submitted the job, when API keys are configured
+  solution_id?: string; // id in the solution history once the solution is stored
+}
+
+export interface SolveJobSubmitOptions {
+  tenant?: string;
+  onFinish?: (job: SolveJob) => void; // called once when the job is done, failed or cancelled
+  // Called once the job has stopped routing and solving: when its solve settles, which
+  // may be after it was cancelled, or on cancel when it never started
+  onSettled?: () => void;
+}
+
+export interface SolveJobManagerOptions {
+  maxConcurrent?: number; // jobs solved at the same time (defaults to 1)
+  retention?: number; // seconds finished jobs are kept (defaults to 3600)
+}
+
+interface QueuedJob {
+  job: SolveJob;
+  problem: VroomProblem;
+  orsOptions: ORSDirectionsOptions;
+  solveOptions: SolveOptions;
+  controller: AbortController;
+  started: boolean;
+  onFinish?: (job: SolveJob) => void;
+  onSettled?: () => void;
+}
+
+/**
+ * Runs VroomORS.solve in the background so clients can poll for the result
+ * instead of holding a connection open for the whole matrix build.
+ */
+export class SolveJobManager {
+  private vroomOrs: VroomORS;
+  private maxConcurrent: number;
+  private retention: number;
+  private jobs = new Map<string, QueuedJob>();
+  private queue: QueuedJob[] = [];
+  private running = 0;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(vroomOrs: VroomORS, options: SolveJobManagerOptions = {}) {
+    this.vroomOrs = vroomOrs;
+    this.maxConcurrent = options.maxConcurrent ?? 1;
+    this.retention = options.retention ?? 3600;
+    this.sweepTimer = setInterval(() => this.sweep(), 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  submit(
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions = {},
+    solveOptions: SolveOptions = {},
+    options: SolveJobSubmitOptions = {}
+  ): SolveJob {
+    const now = new Date().toISOString();
+    const queued: QueuedJob = {
+      job: {
+        id: randomUUID(),
+        state: 'queued',
+        created_at: now,
+        updated_at: now,
+        ...(options.tenant !== undefined && { tenant: options.tenant })
+      },
+      problem,
+      orsOptions,
+      solveOptions,
+      controller: new AbortController(),
+      started: false,
+      onFinish: options.onFinish,
+      onSettled: options.onSettled
+    };
+
+    this.jobs.set(queued.job.id, queued);
+    this.queue.push(queued);
+    this.runNext();
+    return queued.job;
+  }
+
+  get(id: string): SolveJob | undefined {
+    this.sweep();
+    return this.jobs.get(id)?.job;
+  }
+
+  getProblem(id: string): VroomProblem | undefined {
+    return this.jobs.get(id)?.problem;
+  }
+
+  // The routing options a job was submitted with, to route consistently with its solution later
+  getOptions(id: string): { orsOptions: ORSDirectionsOptions; solveOptions: SolveOptions } | undefined {
+    const queued = this.jobs.get(id);
+    return queued && { orsOptions: queued.orsOptions, solveOptions: queued.solveOptions };
+  }
+
+  /**
+   * Aborts a queued or running job. Finished jobs are removed instead.
+   * Returns false if the job does not exist.
+   */
+  cancel(id: string): boolean {
+    const queued = this.jobs.get(id);
+    if (!queued) {
+      return false;
+    }
+
+    if (this.isFinished(queued.job)) {
+      this.jobs.delete(id);
+      return true;
+    }
+
+    this.queue = this.queue.filter(item => item !== queued);
+    queued.controller.abort(new Error('Job cancelled'));
+    this.finish(queued, { state: 'cancelled', error: 'Job cancelled' });
+    if (!queued.started) {
+      queued.onSettled?.();
+    }
+    return true;
+  }
+
+  private runNext(): void {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      const queued = this.queue.shift()!;
+      queued.started = true;
+      this.running++;
+      this.run(queued).finally(() => {
+        this.running--;
+        queued.onSettled?.();
+        this.runNext();
+      });
+    }
+  }
+
+  private async run(queued: QueuedJob): Promise<void> {
+    const { job, controller } = queued;
+    this.update(job, { state: 'building_matrix' });
+
+    try {
+      const solution = await this.vroomOrs.solve(queued.problem, queued.orsOptions, {
+        ...queued.solveOptions,
+        signal: controller.signal,
+        onProgress: progress => {
+          if (!this.isFinished(job)) {
+            this.update(job, {
+              state: progress.phase === 'solving' ? 'solving' : job.state,
+              progress
+            });
+          }
+          queued.solveOptions.onProgress?.(progress);
+        }
+      });
+
+      if (!controller.signal.aborted) {
+        this.finish(queued, { state: 'done', solution });
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        console.error(`Solve job ${job.id} failed:`, error);
+        this.finish(queued, {
+          state: 'failed',
+          error: error.message || 'An error occurred while solving the VROOM problem',
+          ...(error instanceof UnreachablePairsError && { unreachable: error.pairs }),
+          ...(error instanceof VroomError && { vroom_code: error.code })
+        });
+      }
+    }
+  }
+
+  private finish(queued: QueuedJob, changes: Partial<SolveJob>): void {
+    this.update(queued.job, {
+      ...changes,
+      expires_at: new Date(Date.now() + this.retention * 1000).toISOString()
+    });
+    queued.onFinish?.(queued.job);
+  }
+
+  private update(job: SolveJob, changes: Partial<SolveJob>): void {
+    Object.assign(job, changes, { updated_at: new Date().toISOString() });
+  }
+
+  private isFinished(job: SolveJob): boolean {
+    return job.state === 'done' || job.state === 'failed' || job.state === 'cancelled';
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, { job }] of this.jobs) {
+      if (job.expires_at && Date.parse(job.expires_at) <= now) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
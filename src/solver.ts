@@ -0,0 +1,38 @@
+import { VroomProblem, VroomSolution, VroomSolveOptions } from './types.js';
+import { VroomError } from './errors.js';
+
+// Solves a matrix-based VROOM problem
+export interface VroomSolver {
+  readonly name: string;
+  solve(problem: VroomProblem, options?: VroomSolveOptions, signal?: AbortSignal): Promise<VroomSolution>;
+}
+
+/**
+ * Parses a VROOM response body the same way for every backend: a non-zero
+ * code becomes a VroomError, anything unparseable an Error with the raw text.
+ */
+export function parseVroomOutput(solver: string, output: string, status?: string): VroomSolution {
+  let solution: any;
+  try {
+    solution = JSON.parse(output);
+  } catch {
+    throw new Error(`${solver} returned an invalid response${status ? ` (${status})` : ''}: ${output.slice(0, 500)}`);
+  }
+
+  if (typeof solution?.code === 'number' && solution.code !== 0) {
+    throw new VroomError(solver, solution.code, solution.error || 'Unknown error');
+  }
+  if (!solution?.summary) {
+    throw new Error(`${solver} returned no solution${status ? ` (${status})` : ''}: ${output.slice(0, 500)}`);
+  }
+  return solution;
+}
+
+// Aborts when the caller aborts or after timeout seconds, whichever comes first
+export function withTimeout(signal: AbortSignal | undefined, timeout: number | undefined): AbortSignal | undefined {
+  if (timeout === undefined) {
+    return signal;
+  }
+  const deadline = AbortSignal.timeout(timeout * 1000);
+  return signal ? AbortSignal.any([signal, deadline]) : deadline;
+}
@@ -0,0 +1,78 @@
+import polyline from '@mapbox/polyline';
+import { Coordinate, ORSDirectionsOptions } from './types.js';
+
+export interface StraightLineEstimatorOptions {
+  speeds?: { [profile: string]: number }; // average speeds in km/h, merged over the defaults
+  detourFactor?: number; // ratio of road distance to great-circle distance (defaults to 1.3)
+}
+
+export interface StraightLineEstimate {
+  distance: number; // in the requested units
+  duration: number; // in seconds
+  geometry: string; // Encoded polyline of the straight line
+}
+
+const DEFAULT_SPEEDS: { [profile: string]: number } = {
+  'driving-car': 50,
+  'driving-hgv': 40,
+  'cycling-regular': 15,
+  'cycling-road': 20,
+  'cycling-mountain': 12,
+  'cycling-electric': 20,
+  'foot-walking': 5,
+  'foot-hiking': 4,
+  'wheelchair': 4,
+  'public-transport': 25
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Estimates directions from the haversine distance between two points, for
+ * use when ORS is unavailable or cannot route a pair.
+ */
+export class StraightLineEstimator {
+  private speeds: { [profile: string]: number };
+  private detourFactor: number;
+
+  constructor(options: StraightLineEstimatorOptions = {}) {
+    this.speeds = { ...DEFAULT_SPEEDS, ...options.speeds };
+    this.detourFactor = options.detourFactor ?? 1.3;
+  }
+
+  estimate(
+    from: Coordinate,
+    to: Coordinate,
+    profile: string = 'driving-car',
+    units: ORSDirectionsOptions['units'] = 'km'
+  ): StraightLineEstimate {
+    const distanceKm = this.haversine(from, to) * this.detourFactor;
+    const speed = this.speeds[profile] || DEFAULT_SPEEDS['driving-car'];
+
+    return {
+      distance: this.convertDistance(distanceKm, units),
+      duration: distanceKm / speed * 3600,
+      geometry: polyline.encode([[from.lat, from.lng], [to.lat, to.lng]])
+    };
+  }
+
+  private haversine(from: Coordinate, to: Coordinate): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLng = toRadians(to.lng - from.lng);
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  private convertDistance(distanceKm: number, units: ORSDirectionsOptions['units']): number {
+    switch (units) {
+      case 'm':
+        return distanceKm * 1000;
+      case 'mi':
+        return distanceKm / 1.609344;
+      default:
+        return distanceKm;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { TenantConfig, TenantUsage } from './types.js';
+import { TenantLimitError } from './errors.js';
+
+interface TenantState {
+  config: TenantConfig;
+  inFlight: number;
+  pairsToday: number;
+}
+
+interface KeyState {
+  tenant: TenantState;
+  requests: number;
+  rejected: number;
+  solves: number;
+  pairsToday: number;
+  lastUsedAt: Date | null;
+}
+
+/**
+ * API keys of the HTTP server's tenants and their limits: locations per
+ * request, concurrent solves and a daily budget of routed location pairs.
+ * Usage is kept in memory per key; the daily counters reset at midnight UTC.
+ */
+export class TenantRegistry {
+  private keys = new Map<string, KeyState>();
+  private day = this.currentDay();
+
+  constructor(tenants: TenantConfig[] = []) {
+    for (const config of tenants) {
+      if (!config.name || !Array.isArray(config.keys) || config.keys.length === 0) {
+        throw new Error('Every tenant needs a name and at least one key');
+      }
+      const tenant: TenantState = { config, inFlight: 0, pairsToday: 0 };
+      for (const key of config.keys) {
+        if (this.keys.has(key)) {
+          throw new Error(`API key of tenant ${config.name} is already used by tenant ${this.keys.get(key)!.tenant.config.name}`);
+        }
+        this.keys.set(key, { tenant, requests: 0, rejected: 0, solves: 0, pairsToday: 0, lastUsedAt: null });
+      }
+    }
+  }
+
+  // Without tenants the server is open and nothing is limited
+  get enabled(): boolean {
+    return this.keys.size > 0;
+  }
+
+  // Counts a request for the key. Returns its tenant, or undefined for unknown keys.
+  authenticate(key: string): TenantConfig | undefined {
+    const state = this.keys.get(key);
+    if (!state) {
+      return undefined;
+    }
+    state.requests++;
+    state.lastUsedAt = new Date();
+    return state.tenant.config;
+  }
+
+  /**
+   * Checks a request of the given size against the key's tenant and charges
+   * its pairs to the daily budget. Solves also take one of the tenant's
+   * concurrent slots until the returned function is called; called with the
+   * pairs the request actually routed, it charges those instead of the
+   * estimate. Throws a TenantLimitError when a limit is exceeded.
+   */
+  admit(key: string, size: { locations: number; pairs: number }, solve: boolean): (pairsUsed?: number) => void {
+    const state = this.keys.get(key);
+    if (!state) {
+      throw new Error('Unknown API key');
+    }
+    this.rollDay();
+    const { tenant } = state;
+    const { name, maxLocations, maxConcurrentSolves, dailyPairs, disabled } = tenant.config;
+
+    const reject = (status: 403 | 429, message: string, retryAfter?: number) => {
+      state.rejected++;
+      return new TenantLimitError(status, message, retryAfter);
+    };
+    if (disabled) {
+      throw reject(403, `Tenant ${name} is disabled`);
+    }
+    if (maxLocations !== undefined && size.locations > maxLocations) {
+      throw reject(403, `${size.locations} locations exceed the limit of ${maxLocations} per request for tenant ${name}`);
+    }
+    if (solve && maxConcurrentSolves !== undefined && tenant.inFlight >= maxConcurrentSolves) {
+      throw reject(429, `Tenant ${name} already has ${tenant.inFlight} solves in progress (limit ${maxConcurrentSolves})`);
+    }
+    if (dailyPairs !== undefined && tenant.pairsToday + size.pairs > dailyPairs) {
+      throw reject(
+        429,
+        `${size.pairs} location pairs exceed the ${Math.max(dailyPairs - tenant.pairsToday, 0)} left of tenant ${name}'s daily budget of ${dailyPairs}`,
+        Math.ceil((this.resetsAt().getTime() - Date.now()) / 1000)
+      );
+    }
+
+    const day = this.day;
+    this.charge(state, size.pairs);
+    if (solve) {
+      state.solves++;
+      tenant.inFlight++;
+    }
+    let released = false;
+    return pairsUsed => {
+      if (released) {
+        return;
+      }
+      released = true;
+      if (solve) {
+        tenant.inFlight--;
+      }
+      // Once the counters have reset, the estimate is gone and nothing is settled
+      this.rollDay();
+      if (pairsUsed !== undefined && day === this.day) {
+        this.charge(state, pairsUsed - size.pairs);
+      }
+    };
+  }
+
+  usage(key: string): TenantUsage | undefined {
+    const state = this.keys.get(key);
+    if (!state) {
+      return undefined;
+    }
+    this.rollDay();
+    const { config, inFlight, pairsToday } = state.tenant;
+    return {
+      tenant: config.name,
+      key: `...${key.slice(-4)}`,
+      requests: state.requests,
+      rejected: state.rejected,
+      solves: state.solves,
+      pairs_today: state.pairsToday,
+      last_used_at: state.lastUsedAt?.toISOString() ?? null,
+      limits: {
+        max_locations: config.maxLocations ?? null,
+        max_concurrent_solves: config.maxConcurrentSolves ?? null,
+        daily_pairs: config.dailyPairs ?? null
+      },
+      tenant_solves_in_flight: inFlight,
+      tenant_pairs_today: pairsToday,
+      tenant_pairs_remaining: config.dailyPairs !== undefined ? Math.max(config.dailyPairs - pairsToday, 0) : null,
+      resets_at: this.resetsAt().toISOString()
+    };
+  }
+
+  private charge(state: KeyState, pairs: number): void {
+    state.pairsToday = Math.max(state.pairsToday + pairs, 0);
+    state.tenant.pairsToday = Math.max(state.tenant.pairsToday + pairs, 0);
+  }
+
+  private rollDay(): void {
+    const day = this.currentDay();
+    if (day === this.day) {
+      return;
+    }
+    this.day = day;
+    for (const state of this.keys.values()) {
+      state.pairsToday = 0;
+      state.tenant.pairsToday = 0;
+    }
+  }
+
+  private currentDay(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private resetsAt(): Date {
+    const reset = new Date(`${this.day}T00:00:00.000Z`);
+    reset.setUTCDate(reset.getUTCDate() + 1);
+    return reset;
+  }
+}
@@ -14,6 +14,7 @@ export interface ORSDirectionsOptions {
   elevation?: boolean;
   extra_info?: string[];
   maximum_speed?: number;
+  avoid_zones?: string[]; // names of stored restricted zones, merged into options.avoid_polygons
   options?: {
     avoid_features?: string[];
     avoid_borders?: 'all' | 'controlled' | 'none';
@@ -23,6 +24,123 @@ export interface ORSDirectionsOptions {
   };
 }
 
+// ORS options overriding the shared ones for vehicles of a given profile. A
+// vehicle profile that is not an ORS profile names its own matrix and sets the
+// ORS profile to route with, e.g. { 'car-lez': { profile: 'driving-car', avoid_zones: ['lez'] } }
+export interface ProfileOptions {
+  [profile: string]: ORSDirectionsOptions;
+}
+
+// A named polygon stored on the server that vehicles can be kept out of
+export interface RestrictedZone {
+  name: string;
+  description?: string;
+  geometry: GeoJSONPolygon;
+  created_at: string;
+  updated_at: string;
+}
+
+// An API client of the HTTP server with its keys and limits
+export interface TenantConfig {
+  name: string;
+  keys: string[];
+  maxLocations?: number; // distinct locations per request
+  maxConcurrentSolves?: number; // solves running or queued as jobs at the same time
+  dailyPairs?: number; // routed location pairs per day (UTC), shared by the tenant's keys
+  admin?: boolean; // may create, replace and delete the restricted zones all tenants route around
+  disabled?: boolean;
+}
+
+// What a key has used, and its tenant's standing against the limits
+export interface TenantUsage {
+  tenant: string;
+  key: string; // masked, only the last characters
+  requests: number;
+  rejected: number; // requests refused for exceeding a limit
+  solves: number;
+  pairs_today: number; // by this key
+  last_used_at: string | null;
+  limits: {
+    max_locations: number | null;
+    max_concurrent_solves: number | null;
+    daily_pairs: number | null;
+  };
+  tenant_solves_in_flight: number;
+  tenant_pairs_today: number;
+  tenant_pairs_remaining: number | null;
+  resets_at: string;
+}
+
+export type GeoJSONPolygon =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+// Where VroomORS and the routing providers write progress and warnings
+export type Logger = Pick<Console, 'log' | 'warn'>;
+
+// Cancellation and progress reporting for long-running ORS work
+export interface RequestControl {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  onPairFailed?: (from: number, to: number, error: string) => void;
+  onRateLimit?: (delay: number, attempt: number) => void; // delay in milliseconds
+  onPairsRequested?: (count: number) => void; // location pairs sent to the routing service, cache hits excluded
+  priority?: number; // RequestScheduler priority, higher starts first (defaults to 0)
+}
+
+export type SolvePhase = 'building_matrix' | 'solving' | 'fetching_geometry' | 'fetching_instructions' | 'fetching_elevation';
+
+export interface SolveProgress {
+  phase: SolvePhase;
+  profile?: string;
+  done?: number; // pairs done in the current phase
+  total?: number; // pairs in the current phase
+}
+
+export interface PairFailure {
+  profile?: string;
+  from: number; // index of the origin
+  to: number; // index of the destination
+  error: string;
+}
+
+// Turns the distance, duration and ORS extra_info of each matrix pair into a
+// VROOM cost. Rates are per km (whatever the ORS units) or per hour; surcharges need the
+// matching extra_info, which only ORS directions return.
+export interface CostModelOptions {
+  perKm?: number; // cost per km driven
+  perHour?: number; // cost per hour driven
+  tollPerKm?: number; // surcharge per km on toll roads (tollways)
+  highwayPerKm?: number; // surcharge per km on state roads (waytype 1)
+  waytypePerKm?: { [waytype: string]: number }; // surcharge per km by ORS waytype value
+  steepnessPerKm?: { [steepness: string]: number }; // surcharge per km by ORS steepness value (-5 to 5)
+  scale?: number; // multiplier before rounding to VROOM's integer costs (defaults to 100)
+}
+
+export interface SolveOptions {
+  profileOptions?: ProfileOptions;
+  // 'eager' fetches geometry for every matrix pair, 'lazy' builds the matrix
+  // without geometry and only fetches the legs used by the solution
+  geometry?: 'eager' | 'lazy' | 'none';
+  instructions?: boolean; // attach turn-by-turn instructions per route leg
+  // What to do with location pairs ORS cannot route: 'penalize' keeps a huge
+  // finite cost, 'fail' throws, 'estimate' uses a straight-line estimate and
+  // 'exclude' drops the affected jobs and shipments
+  unreachable?: 'penalize' | 'fail' | 'estimate' | 'exclude';
+  provider?: string; // routing provider name, defaults to the VroomORS default provider
+  solver?: VroomSolveOptions;
+  includeMatrices?: boolean; // attach the matrices to the solution for incremental re-optimization
+  costModel?: CostModelOptions; // solve on operating cost instead of duration
+  vehicleZones?: { [vehicleType: string]: string[] }; // restricted zones avoided by vehicles of each type
+  elevation?: boolean; // fetch 3D route geometry for ascent, descent, elevation profiles and energy estimates
+  priority?: number; // scheduling priority of the routing requests, higher starts first (defaults to 0)
+  signal?: AbortSignal;
+  onProgress?: (progress: SolveProgress) => void;
+  onPairFailed?: (failure: PairFailure) => void;
+  onRateLimit?: (delay: number, attempt: number) => void;
+  onPairsRequested?: (count: number) => void; // location pairs sent to the routing service, cache hits excluded
+}
+
 export interface ORSDirectionsResponse {
   routes: Array<{
     summary: {
@@ -32,10 +150,18 @@ export interface ORSDirectionsResponse {
     segments: Array<{
       distance: number;
       duration: number;
+      ascent?: number; // in meters, when elevation was requested
+      descent?: number;
       steps: any[];
     }>;
     geometry?: any;
     way_points?: number[];
+    extras?: {
+      [name: string]: {
+        values: Array<[number, number, number]>; // [from waypoint, to waypoint, value]
+        summary: Array<{ value: number; distance: number; amount: number }>;
+      };
+    };
   }>;
   bbox?: number[];
   info?: {
@@ -47,12 +173,58 @@ export interface ORSDirectionsResponse {
   };
 }
 
+export type ORSSegment = ORSDirectionsResponse['routes'][number]['segments'][number];
+
+export interface ORSMatrixResponse {
+  durations?: Array<Array<number | null>>;
+  distances?: Array<Array<number | null>>;
+  sources?: any[];
+  destinations?: any[];
+  metadata?: any;
+}
+
 export interface MatrixEntry {
   from: number; // index of the origin
   to: number; // index of the destination
   distance: number; // in meters
   duration: number; // in seconds
   geometry?: string; // Encoded polyline geometry
+  extras?: RouteExtras; // requested ORS extra_info summaries
+  cached?: boolean; // true when served from the directions cache
+  error?: string; // set when no route could be found between the locations
+  estimated?: boolean; // true when distance/duration are an approximation
+}
+
+// Distance along a route per value of each ORS extra_info attribute,
+// e.g. { tollways: [{ value: 1, distance: 12.5 }] } for 12.5 km of toll roads
+export interface RouteExtras {
+  [name: string]: Array<{ value: number; distance: number }>;
+}
+
+export interface UnreachablePair {
+  profile: string;
+  from_index: number;
+  to_index: number;
+  from: [number, number]; // [longitude, latitude]
+  to: [number, number]; // [longitude, latitude]
+  error: string; // ORS error message
+  jobs: number[]; // ids of jobs at either location
+  shipments: number[]; // ids of shipments with a pickup or delivery at either location
+  vehicles: number[]; // ids of vehicles starting or ending at either location
+  estimated?: boolean; // true when the pair was replaced by an estimate
+}
+
+export interface CachedDirection {
+  distance: number;
+  duration: number;
+  geometry?: string; // Encoded polyline geometry
+  extras?: RouteExtras;
+  cached_at: number; // epoch milliseconds
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
 export interface VroomJob {
@@ -99,6 +271,8 @@ export interface VroomVehicle {
   profile?: string;
   description?: string; // a string describing this vehicle
   type?: string; // a string describing the vehicle type
+  restrictions?: HgvRestrictions; // truck dimensions and weights ORS routes driving-hgv vehicles around
+  consumption?: ConsumptionModel; // energy use estimated when solving with elevation
   start?: [number, number]; // [longitude, latitude]
   end?: [number, number]; // [longitude, latitude]
   start_index?: number; // For matrix-based problems
@@ -106,6 +280,7 @@ export interface VroomVehicle {
   capacity?: number[]; // an array of integers describing multidimensional capacities
   skills?: number[]; // an array of integers defining vehicle skills
   time_window?: [number, number]; // a time_window object describing valid vehicle operation times
+  steps?: VroomVehicleStep[]; // fixed task order, used by plan mode (see VroomORS.evaluate)
   breaks?: Array<{
     id: number;
     time_windows: Array<[number, number]>;
@@ -118,8 +293,51 @@ export interface VroomVehicle {
   }
 }
 
+// ORS driving-hgv profile_params.restrictions; lengths in meters, weights in tonnes
+export interface HgvRestrictions {
+  length?: number;
+  width?: number;
+  height?: number;
+  weight?: number; // total weight
+  axleload?: number;
+  hazmat?: boolean; // carries hazardous materials
+}
+
+// Energy use of an electric vehicle: a flat-ground rate plus the energy to
+// climb its mass, less what is recuperated going downhill
+export interface ConsumptionModel {
+  perKm: number; // kWh per km on flat ground
+  mass?: number; // kg including the load; climbing is ignored without it
+  efficiency?: number; // drivetrain efficiency between 0 and 1 (defaults to 0.85)
+  recuperation?: number; // share of the descent energy recovered (defaults to 0)
+  battery?: number; // usable battery capacity in kWh
+}
+
+// A step of a vehicle's fixed route; shipment steps use the pickup or delivery id
+export interface VroomVehicleStep {
+  type: 'start' | 'job' | 'pickup' | 'delivery' | 'break' | 'end';
+  id?: number;
+  service_at?: number;
+  service_after?: number;
+  service_before?: number;
+}
+
 export interface VroomOptions {
   g?: boolean;
+  c?: boolean; // plan mode: compute ETAs for the vehicles' fixed steps instead of optimizing
+}
+
+// A constraint violation reported in plan mode, e.g. 'delay' for a late arrival
+export interface VroomViolation {
+  cause: 'delay' | 'lead_time' | 'load' | 'max_tasks' | 'skills' | 'precedence' | 'missing_break' | 'max_travel_time' | 'max_load' | 'max_distance';
+  duration?: number; // seconds late ('delay') or early ('lead_time')
+}
+
+// VROOM command-line solving options, applied by the solver backend
+export interface VroomSolveOptions {
+  threads?: number; // -t, number of threads
+  explore?: number; // -x, exploration level (0 to 5)
+  timeout?: number; // -l, solving time limit in seconds
 }
 
 export interface VroomProblem {
@@ -138,6 +356,13 @@ export interface VroomProblem {
 
 export interface VroomSolution {
   code: number;
+  cache?: CacheStats; // directions cache usage while building the matrix
+  unreachable?: UnreachablePair[]; // location pairs ORS could not route
+  estimated?: {
+    pairs: number; // matrix entries that are straight-line estimates
+    route_legs: number; // legs of the solution's routes that are estimates
+  };
+  matrices?: SolutionMatrices; // set when SolveOptions.includeMatrices is true
   summary: {
     cost: number;
     routes: number;
@@ -148,6 +373,9 @@ export interface VroomSolution {
     waiting_time: number;
     priority: number;
     distance?: number;
+    toll_distance?: number; // in ORS units, set when the routes' tollways are known
+    energy?: number; // kWh of the routes with a consumption model
+    violations?: VroomViolation[];
     computing_times: {
       loading: number;
       solving: number;
@@ -156,6 +384,7 @@ export interface VroomSolution {
   };
   unassigned: Array<{
     id: number;
+    type?: 'job' | 'pickup' | 'delivery';
     location: [number, number];
     reason: string;
   }>;
@@ -168,7 +397,15 @@ export interface VroomSolution {
     waiting_time: number;
     priority: number;
     distance?: number;
+    toll_distance?: number; // in ORS units, set when the legs' tollways are known
+    ascent?: number; // in meters, set when elevation was requested
+    descent?: number;
+    elevation_profile?: Array<[number, number]>; // [distance along the route in ORS units, elevation in meters]
+    energy?: number; // estimated kWh, set when the vehicle has a consumption model
+    battery_exceeded?: boolean; // true when energy is above the vehicle's battery capacity
+    violations?: VroomViolation[];
     geometry?: string; // Encoded polyline geometry for the complete route
+    legs?: RouteLeg[]; // one entry per pair of consecutive steps
     steps: Array<{
       type: 'start' | 'job' | 'end' | 'pickup' | 'delivery';
       location?: [number, number];
@@ -180,6 +417,182 @@ export interface VroomSolution {
       arrival?: number;
       duration?: number;
       distance?: number;
+      violations?: VroomViolation[];
+      leg?: StepLeg; // the leg arriving at this step
     }>;
   }>;
+}
+
+// The matrices a solution was computed with, indexed by the locations array,
+// and how they were routed so re-optimization only reuses matching ones
+export interface SolutionMatrices {
+  locations: Array<[number, number]>; // [longitude, latitude]
+  profiles: NonNullable<VroomProblem['matrices']>;
+  provider?: string; // routing provider name
+  options?: { [matrixProfile: string]: ORSDirectionsOptions }; // routing options (profile, units, avoid_zones, ...) of each matrix
+  zones?: { [name: string]: string }; // updated_at of the avoided zones the matrices were routed around
+}
+
+// Progress of a vehicle along its route of a previous solution
+export interface VehicleState {
+  id: number;
+  position?: [number, number]; // current [longitude, latitude]
+  // Steps of the previous route already done, counting the start. The next
+  // step is in progress and stays locked too.
+  completed_steps: number;
+}
+
+export interface ReoptimizeRequest {
+  problem: VroomProblem; // the problem the previous solution was computed for
+  solution: VroomSolution; // previous solution, with matrices to only fetch new rows and columns
+  vehicles?: VehicleState[]; // vehicles without a state have not started yet
+  time?: number; // current time, on the clock of the solution's arrivals
+  jobs?: VroomJob[]; // new jobs
+  shipments?: VroomShipment[]; // new shipments
+}
+
+export interface TaskAssignment {
+  type: 'job' | 'shipment';
+  id: number;
+}
+
+export interface ReoptimizeDiff {
+  moved: Array<TaskAssignment & { from_vehicle: number | null; to_vehicle: number | null }>; // null is unassigned
+  added: Array<TaskAssignment & { vehicle: number | null }>;
+  unchanged: number; // existing tasks that kept their vehicle
+  locked: number; // steps kept from the previous routes
+}
+
+export interface ReoptimizeResult {
+  solution: VroomSolution;
+  diff: ReoptimizeDiff;
+}
+
+// A solved problem kept in the solution history
+export interface StoredSolution {
+  id: string;
+  created_at: string;
+  input_hash: string; // SHA-256 of the problem and routing options, equal for identical inputs
+  source: 'solve' | 'evaluate' | 'reoptimize' | 'job';
+  tenant?: string; // the tenant that solved it, when API keys are configured
+  problem: VroomProblem;
+  orsOptions: ORSDirectionsOptions;
+  routing?: Pick<SolveOptions, 'provider' | 'profileOptions' | 'vehicleZones'>; // to route later requests the same way
+  solution: VroomSolution;
+}
+
+// A stored solution without its problem and solution, for listings
+export interface StoredSolutionSummary {
+  id: string;
+  created_at: string;
+  input_hash: string;
+  source: StoredSolution['source'];
+  tenant?: string;
+  vehicles: number;
+  jobs: number;
+  shipments: number;
+  summary: {
+    cost: number;
+    routes: number;
+    unassigned: number;
+    duration: number;
+    distance?: number;
+  };
+}
+
+// A figure of two solutions and how much it changed from the first to the second
+export interface ComparedValue {
+  from: number;
+  to: number;
+  change: number;
+}
+
+export interface SolutionComparison {
+  from: string; // solution ids
+  to: string;
+  same_input: boolean;
+  cost: ComparedValue;
+  distance: ComparedValue;
+  duration: ComparedValue;
+  unassigned: ComparedValue;
+  routes: ComparedValue;
+  changed_vehicle: Array<TaskAssignment & { from_vehicle: number | null; to_vehicle: number | null }>; // null is unassigned
+}
+
+// A vehicle's position report, on the clock of the solution's arrivals
+export interface PositionUpdate {
+  vehicle: number;
+  position: [number, number]; // [longitude, latitude]
+  time: number;
+  completed_steps?: number; // steps already done, counting the start; inferred from planned arrivals if omitted
+}
+
+export interface StepEta {
+  step_index: number; // index of the step in the route
+  type: VroomStep['type'];
+  id?: number;
+  location?: [number, number];
+  planned_arrival?: number;
+  arrival: number;
+  waiting_time: number;
+  delay: number; // arrival minus planned arrival
+  time_window?: [number, number]; // the window service starts in, or the last one if all are missed
+  slack?: number; // seconds between service start and the end of its time window
+  at_risk: boolean; // slack below the risk margin
+  late: boolean; // service cannot start in any time window
+}
+
+export interface EtaUpdate {
+  vehicle: number;
+  time: number;
+  next_step: number; // index of the step the vehicle is heading to
+  distance: number; // remaining, in ORS units (km by default)
+  duration: number; // remaining travel time in seconds
+  steps: StepEta[];
+  at_risk: number; // steps at risk or late
+}
+
+export interface StepLeg {
+  distance: number; // in ORS units (km by default)
+  duration: number; // in seconds
+  geometry?: string; // Encoded polyline geometry of this leg only
+  geometry_range?: [number, number]; // first and last point index of the leg in the route geometry
+  estimated?: boolean; // true when the leg is a straight-line estimate
+  ascent?: number; // in meters, set when elevation was requested
+  descent?: number;
+  energy?: number; // estimated kWh
+}
+
+export interface RouteInstruction {
+  text: string;
+  distance: number; // in ORS units (km by default)
+  duration: number; // in seconds
+  type?: number; // ORS instruction type
+  name?: string; // street name
+  way_points: [number, number]; // indices into the leg geometry
+}
+
+export interface RouteLeg {
+  from_step: number; // index of the step the leg starts at
+  to_step: number; // index of the step the leg ends at
+  distance: number; // in ORS units (km by default)
+  duration: number; // in seconds
+  instructions?: RouteInstruction[];
+}
+
+export type VroomRoute = VroomSolution['routes'][number];
+export type VroomStep = VroomRoute['steps'][number];
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'Point'; coordinates: [number, number] }
+    | { type: 'LineString'; coordinates: Array<[number, number]> }
+    | null;
+  properties: { [key: string]: any };
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import polyline from '@mapbox/polyline';
+import { Coordinate, ORSDirectionsOptions, ORSSegment } from './types.js';
+import { BaseRoutingProvider, ProviderRoute, ProviderTable, RoutingProviderOptions } from './routing-provider.js';
+
+const DEFAULT_PROFILES: { [profile: string]: string } = {
+  'driving-car': 'auto',
+  'driving-hgv': 'truck',
+  'cycling-regular': 'bicycle',
+  'cycling-road': 'bicycle',
+  'cycling-mountain': 'bicycle',
+  'cycling-electric': 'bicycle',
+  'foot-walking': 'pedestrian',
+  'foot-hiking': 'pedestrian',
+  'wheelchair': 'pedestrian'
+};
+
+// Valhalla maneuver types to ORS instruction types
+const MANEUVER_TYPES: { [type: number]: number } = {
+  1: 11, 2: 11, 3: 11, // start
+  4: 10, 5: 10, 6: 10, // destination
+  8: 6, 22: 6, // continue, stay straight
+  9: 5, 10: 1, 11: 3, // right turns
+  12: 9, 13: 9, // u-turns
+  14: 2, 15: 0, 16: 4, // left turns
+  23: 13, 24: 12, // stay right, stay left
+  26: 7, 27: 8 // roundabout enter, exit
+};
+
+/**
+ * Routing provider for a Valhalla server. Valhalla shapes use precision 6 and
+ * are re-encoded to the precision 5 polylines used everywhere else. ORS
+ * routing options (avoid_features, vehicle_type, ...) are ignored.
+ */
+export class ValhallaClient extends BaseRoutingProvider {
+  readonly name = 'valhalla';
+  private baseUrl: string;
+
+  constructor(baseUrl: string = 'http://localhost:8002', options: RoutingProviderOptions = {}) {
+    super(options, DEFAULT_PROFILES);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async getRoute(
+    coordinates: Coordinate[],
+    options: ORSDirectionsOptions = {},
+    signal?: AbortSignal
+  ): Promise<ProviderRoute> {
+    if (this.isOffline) {
+      throw new Error('Valhalla routing is not available in offline mode');
+    }
+
+    const { profile = 'driving-car', units = 'km', geometry = false, instructions = false } = options;
+    const data = await this.request('/route', {
+      locations: coordinates.map(coord => ({ lat: coord.lat, lon: coord.lng })),
+      costing: this.mapProfile(profile),
+      units: 'kilometers',
+      directions_options: { directions_type: instructions ? 'instructions' : 'none' }
+    }, signal);
+
+    if (!data.trip?.legs?.length) {
+      throw new Error('No route found');
+    }
+
+    // Leg shapes share their boundary points; maneuver shape indices are per leg
+    const points: Array<[number, number]> = [];
+    const segments: ORSSegment[] = data.trip.legs.map((leg: any) => {
+      const legPoints = polyline.decode(leg.shape || '', 6);
+      const offset = Math.max(points.length - 1, 0);
+      points.push(...(points.length > 0 ? legPoints.slice(1) : legPoints));
+
+      return {
+        distance: this.fromMeters(leg.summary.length * 1000, units),
+        duration: leg.summary.time,
+        steps: (leg.maneuvers || []).map((maneuver: any) => ({
+          instruction: maneuver.instruction,
+          distance: this.fromMeters(maneuver.length * 1000, units),
+          duration: maneuver.time,
+          type: MANEUVER_TYPES[maneuver.type],
+          name: maneuver.street_names?.join(', '),
+          way_points: [offset + maneuver.begin_shape_index, offset + maneuver.end_shape_index]
+        }))
+      };
+    });
+
+    return {
+      distance: this.fromMeters(data.trip.summary.length * 1000, units),
+      duration: data.trip.summary.time,
+      geometry: geometry ? polyline.encode(points) : undefined,
+      segments
+    };
+  }
+
+  protected async getTable(
+    locations: Coordinate[],
+    sources: number[],
+    destinations: number[],
+    options: ORSDirectionsOptions,
+    signal?: AbortSignal
+  ): Promise<ProviderTable> {
+    const { profile = 'driving-car', units = 'km' } = options;
+    const toLocation = (index: number) => ({ lat: locations[index].lat, lon: locations[index].lng });
+
+    const data = await this.request('/sources_to_targets', {
+      sources: sources.map(toLocation),
+      targets: destinations.map(toLocation),
+      costing: this.mapProfile(profile),
+      units: 'kilometers'
+    }, signal);
+
+    const rows: any[][] = data.sources_to_targets || [];
+    return {
+      durations: rows.map(row => row.map(cell => cell.time ?? null)),
+      distances: rows.map(row => row.map(cell => cell.distance == null ? null : this.fromMeters(cell.distance * 1000, units)))
+    };
+  }
+
+  private async request(path: string, body: any, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Valhalla API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VroomORS } from './vroom-ors.js';
+import { BaseRoutingProvider, ProviderRoute, ProviderTable } from './routing-provider.js';
+import { StraightLineEstimator } from './straight-line-estimator.js';
+import { VroomSolver } from './solver.js';
+import { UnreachablePairsError } from './errors.js';
+import { Coordinate, SolveOptions, VroomProblem, VroomSolution } from './types.js';
+
+const quiet = { log: () => {}, warn: () => {} };
+
+// Routes along longitudes only: 100 km and an hour per degree, failing the
+// pairs written as 'from->to' longitudes
+class LineProvider extends BaseRoutingProvider {
+  readonly name = 'line';
+  routed: string[] = [];
+
+  constructor(private failing: string[]) {
+    super({ logger: quiet });
+  }
+
+  async getRoute([from, to]: Coordinate[]): Promise<ProviderRoute> {
+    this.routed.push(`${from.lng}->${to.lng}`);
+    if (this.failing.includes(`${from.lng}->${to.lng}`)) {
+      throw new Error('No route found');
+    }
+    const degrees = Math.abs(to.lng - from.lng);
+    return { distance: degrees * 100, duration: degrees * 3600, segments: [] };
+  }
+
+  protected async getTable(): Promise<ProviderTable> {
+    throw new Error('No table endpoint');
+  }
+
+  protected supportsTableOptions(): boolean {
+    return false;
+  }
+}
+
+// Records the problems it is given and assigns nothing
+class RecordingSolver implements VroomSolver {
+  readonly name = 'recording';
+  problems: VroomProblem[] = [];
+
+  async solve(problem: VroomProblem): Promise<VroomSolution> {
+    this.problems.push(problem);
+    return {
+      code: 0,
+      summary: {
+        cost: 0, routes: 0, unassigned: 0, setup: 0, service: 0, duration: 0, waiting_time: 0, priority: 0,
+        computing_times: { loading: 0, solving: 0, routing: 0 }
+      },
+      unassigned: [],
+      routes: []
+    };
+  }
+}
+
+// A vehicle based at 0.01 with jobs at 0.02 and 0.03 and a shipment from 0.04 to 0.05
+const PROBLEM: VroomProblem = {
+  vehicles: [{ id: 1, start: [0.01, 0], end: [0.01, 0] }],
+  jobs: [{ id: 1, location: [0.02, 0] }, { id: 2, location: [0.03, 0] }],
+  shipments: [{ id: 10, pickup: { id: 11, location: [0.04, 0] }, delivery: { id: 12, location: [0.05, 0] } }]
+};
+
+async function solve(failing: string[], solveOptions: SolveOptions, problem: VroomProblem = PROBLEM) {
+  const solver = new RecordingSolver();
+  const vroomOrs = new VroomORS('', undefined, undefined, {
+    providers: [new LineProvider(failing)],
+    defaultProvider: 'line',
+    solver,
+    logger: quiet
+  });
+  const solution = await vroomOrs.solve(problem, {}, { geometry: 'none', ...solveOptions });
+  return { solution, solved: solver.problems[0] };
+}
+
+test('penalizes unreachable pairs and reports them by default', async () => {
+  const { solution, solved } = await solve(['0.02->0.03'], {});
+
+  // Locations are the jobs, the shipment's pickup and delivery, then the start
+  assert.equal(solved.matrices!['driving-car'].durations![0][1], 999999);
+  assert.equal(solved.matrices!['driving-car'].distances![0][1], 999999000);
+  assert.deepEqual(solution.unreachable!.map(pair => [pair.from_index, pair.to_index, pair.jobs]), [[0, 1, [1, 2]]]);
+  assert.equal(solved.jobs.length, 2);
+});
+
+test('fails the solve under the fail policy', async () => {
+  await assert.rejects(solve(['0.02->0.03'], { unreachable: 'fail' }), (error: any) =>
+    error instanceof UnreachablePairsError && error.pairs.length === 1 && error.pairs[0].vehicles.length === 0);
+});
+
+test('replaces unreachable pairs with straight-line estimates under the estimate policy', async () => {
+  const { solution, solved } = await solve(['0.02->0.03'], { unreachable: 'estimate' });
+  const estimate = new StraightLineEstimator().estimate({ lat: 0, lng: 0.02 }, { lat: 0, lng: 0.03 }, 'driving-car', 'km');
+
+  assert.equal(solved.matrices!['driving-car'].durations![0][1], Math.round(estimate.duration));
+  assert.equal(solved.matrices!['driving-car'].distances![0][1], Math.round(estimate.distance * 1000));
+  assert.equal(solution.unreachable![0].estimated, true);
+});
+
+test('excludes jobs no vehicle can reach under the exclude policy', async () => {
+  const { solution, solved } = await solve(['0.01->0.03'], { unreachable: 'exclude' });
+
+  assert.deepEqual(solved.jobs.map(job => job.id), [1]);
+  assert.deepEqual(solution.unassigned, [{ id: 2, type: 'job', location: [0.03, 0], reason: 'Unreachable: No route found' }]);
+  assert.equal(solution.summary.unassigned, 1);
+});
+
+test('keeps jobs that only cannot be routed to each other under the exclude policy', async () => {
+  const { solution, solved } = await solve(['0.02->0.03', '0.03->0.02'], { unreachable: 'exclude' });
+
+  assert.deepEqual(solved.jobs.map(job => job.id), [1, 2]);
+  assert.deepEqual(solution.unassigned, []);
+});
+
+test('excludes jobs only by the vehicles with their skills under the exclude policy', async () => {
+  const problem: VroomProblem = {
+    ...PROBLEM,
+    vehicles: [{ ...PROBLEM.vehicles[0], skills: [1] }, { id: 2, start: [0.06, 0] }],
+    jobs: [...PROBLEM.jobs, { id: 3, location: [0.07, 0], skills: [1] }]
+  };
+
+  // Vehicle 2 reaches both jobs vehicle 1 cannot, but only job 2 does not need skill 1
+  const { solution, solved } = await solve(['0.01->0.03', '0.01->0.07'], { unreachable: 'exclude' }, problem);
+
+  assert.deepEqual(solved.jobs.map(job => job.id), [1, 2]);
+  assert.deepEqual(solution.unassigned.map(task => task.id), [3]);
+});
+
+test('reports both steps of an excluded shipment', async () => {
+  const { solution, solved } = await solve(['0.04->0.05'], { unreachable: 'exclude' });
+
+  assert.deepEqual(solved.shipments, []);
+  assert.deepEqual(solution.unassigned.map(task => [task.id, task.type, task.location]), [
+    [11, 'pickup', [0.04, 0]],
+    [12, 'delivery', [0.05, 0]]
+  ]);
+  assert.equal(solution.summary.unassigned, 2);
+});
+
+test('evaluates fixed steps of task id 0 and shipments whose pickup and delivery ids overlap', async () => {
+  const provider = new LineProvider([]);
+  const vroomOrs = new VroomORS('', undefined, undefined, {
+    providers: [provider],
+    defaultProvider: 'line',
+    solver: new RecordingSolver(),
+    logger: quiet
+  });
+  // Delivery 1 belongs to shipment 20, not to shipment 10 whose pickup is 1
+  const problem: VroomProblem = {
+    vehicles: [{
+      id: 1,
+      start: [0.01, 0],
+      steps: [{ type: 'job', id: 0 }, { type: 'pickup', id: 2 }, { type: 'delivery', id: 1 }]
+    }],
+    jobs: [{ id: 0, location: [0.02, 0] }],
+    shipments: [
+      { id: 10, pickup: { id: 1, location: [0.04, 0] }, delivery: { id: 2, location: [0.05, 0] } },
+      { id: 20, pickup: { id: 2, location: [0.06, 0] }, delivery: { id: 1, location: [0.07, 0] } }
+    ]
+  };
+
+  await vroomOrs.evaluate(problem, {}, { geometry: 'none' });
+
+  assert.deepEqual(provider.routed.sort(), ['0.01->0.02', '0.02->0.06', '0.06->0.07']);
+});
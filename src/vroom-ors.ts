@@ -1,4 +1,9 @@
 import { ORSClient } from './ors-client.js';
+import { RoutingProvider, ElevationRoute } from './routing-provider.js';
+import { VroomSolver } from './solver.js';
+import { VroomHttpSolver } from './http-solver.js';
+import { DirectionsCache } from './directions-cache.js';
+import { StraightLineEstimator } from './straight-line-estimator.js';
 import polyline from '@mapbox/polyline';
 import {
   Coordinate,
@@ -6,44 +11,670 @@ import {
   VroomProblem,
   VroomSolution,
   VroomShipment,
-  MatrixEntry
+  VroomVehicle,
+  MatrixEntry,
+  CacheStats,
+  ProfileOptions,
+  SolveOptions,
+  SolvePhase,
+  RequestControl,
+  VroomRoute,
+  RouteLeg,
+  StepLeg,
+  ORSSegment,
+  UnreachablePair,
+  ReoptimizeRequest,
+  ReoptimizeResult,
+  ConsumptionModel,
+  PositionUpdate,
+  EtaUpdate,
+  Logger
 } from './types.js';
+import { InvalidProblemError, UnreachablePairsError, VroomError } from './errors.js';
+import { buildRemainingProblem, mergeLockedSteps, diffAssignments } from './reoptimize.js';
+import { computeStepEtas, findNextStep, DEFAULT_RISK_MARGIN } from './eta.js';
+import { CostModel, getTollDistance } from './cost-model.js';
+import { RestrictedZoneStore } from './zone-store.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { estimateEnergy, buildElevationProfile } from './energy.js';
+import { Metrics } from './metrics.js';
+
+// VROOM matrices hold distances scaled from the ORS units (e.g. km to m) and
+// rounded, and pairs that could not be routed as these sentinels
+const MATRIX_DISTANCE_SCALE = 1000;
+const UNREACHABLE_DURATION = 999999; // seconds, about 11.5 days
+const UNREACHABLE_DISTANCE = 999999; // ORS units
+
+export interface VroomORSOptions {
+  directionsCache?: DirectionsCache;
+  estimator?: StraightLineEstimator; // used for the 'estimate' unreachable policy and estimatorMode
+  // 'fallback' estimates pairs ORS fails to route, 'offline' never calls ORS
+  estimatorMode?: 'off' | 'fallback' | 'offline';
+  profileMap?: { [profile: string]: string }; // profile renames for the built-in ORS client
+  providers?: RoutingProvider[]; // registered alongside the built-in ORS client
+  defaultProvider?: string; // provider name used when a request does not select one (defaults to 'ors')
+  solver?: VroomSolver; // replaces the vroom-express solver at vroomEndpoint
+  zones?: RestrictedZoneStore; // restricted zones the built-in ORS client resolves avoid_zones with
+  scheduler?: RequestScheduler; // rate limits and quota shared by all requests of the built-in ORS client
+  metrics?: Metrics; // records ORS requests, matrix builds and solves
+  concurrency?: number; // parallel directions requests of the built-in ORS client (defaults to 10)
+  logger?: Logger; // progress and warnings of VroomORS and the built-in ORS client (defaults to console)
+}
+
+// Builds the matrix entries of one (matrix) profile for solveWithEntries
+type MatrixBuilder = (
+  coordinates: Coordinate[],
+  options: ORSDirectionsOptions,
+  control: RequestControl,
+  matrixProfile: string
+) => Promise<MatrixEntry[]>;
+
+// State shared between building the matrices and finishing the solution
+interface SolutionContext {
+  provider: RoutingProvider;
+  problem: VroomProblem; // the matrix-based problem sent to the solver
+  consumption: Map<number, ConsumptionModel>; // consumption models by vehicle id
+  locations: Array<[number, number]>;
+  coordinates: Coordinate[];
+  profile: string; // default profile
+  entryMaps: Map<string, Map<string, MatrixEntry>>;
+  profileEntries: Map<string, MatrixEntry[]>;
+  allMatrixEntries: MatrixEntry[];
+  orsOptions: ORSDirectionsOptions;
+  solveOptions: SolveOptions;
+}
 
 export class VroomORS {
   private orsClient: ORSClient;
-  private vroomEndpoint: string;
+  private providers = new Map<string, RoutingProvider>();
+  private defaultProvider: string;
+  private solver: VroomSolver;
+  private directionsCache?: DirectionsCache;
+  private estimator: StraightLineEstimator;
+  private metrics?: Metrics;
+  private zones?: RestrictedZoneStore;
+  private logger: Logger;
+
+  constructor(
+    orsApiKey: string,
+    vroomEndpoint: string = 'http://localhost:3000',
+    orsBaseUrl?: string,
+    options: VroomORSOptions = {}
+  ) {
+    this.estimator = options.estimator || new StraightLineEstimator();
+    this.orsClient = new ORSClient(orsApiKey, orsBaseUrl, {
+      cache: options.directionsCache,
+      estimator: this.estimator,
+      estimatorMode: options.estimatorMode,
+      profileMap: options.profileMap,
+      zones: options.zones,
+      scheduler: options.scheduler,
+      metrics: options.metrics,
+      concurrency: options.concurrency,
+      logger: options.logger
+    });
+    this.solver = options.solver || new VroomHttpSolver(vroomEndpoint);
+    this.directionsCache = options.directionsCache;
+    this.metrics = options.metrics;
+    this.zones = options.zones;
+    this.logger = options.logger || console;
+
+    for (const provider of [this.orsClient, ...(options.providers || [])]) {
+      this.providers.set(provider.name, provider);
+    }
+    this.defaultProvider = options.defaultProvider || this.orsClient.name;
+    this.getProvider(this.defaultProvider);
+  }
+
+  /**
+   * Returns the routing provider registered under the given name, or the
+   * default provider when no name is given.
+   */
+  getProvider(name: string = this.defaultProvider): RoutingProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown routing provider: ${name} (available: ${[...this.providers.keys()].join(', ')})`);
+    }
+    return provider;
+  }
+
+  get providerNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  get solverName(): string {
+    return this.solver.name;
+  }
+
+  /**
+   * The distinct locations of a problem and the most location pairs solving
+   * it routes: a full matrix for each (matrix) profile.
+   */
+  getMatrixSize(
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions = {},
+    solveOptions: SolveOptions = {}
+  ): { locations: number; pairs: number } {
+    ({ problem } = this.assignMatrixProfiles(problem, orsOptions, solveOptions));
+    const locations = this.extractLocations(problem).length;
+    const profiles = this.extractProfiles(problem, orsOptions.profile || 'driving-car').length;
+    return { locations, pairs: locations * locations * profiles };
+  }
 
-  constructor(orsApiKey: string, vroomEndpoint: string = 'http://localhost:3000', orsBaseUrl?: string) {
-    this.orsClient = new ORSClient(orsApiKey, orsBaseUrl);
-    this.vroomEndpoint = vroomEndpoint;
+  async solve(
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions = {},
+    solveOptions: SolveOptions = {}
+  ): Promise<VroomSolution> {
+    const finished = this.metrics?.startSolve('solve');
+    try {
+      ({ problem, solveOptions } = this.assignMatrixProfiles(problem, orsOptions, solveOptions));
+      const provider = this.getProvider(solveOptions.provider);
+      const geometryMode = solveOptions.geometry || 'eager';
+      // extra_info only comes with directions, so cost models that need it skip the table endpoint
+      const needsExtras = (this.getCostModel(solveOptions)?.extraInfo.length ?? 0) > 0;
+
+      return await this.solveWithEntries(provider, problem, orsOptions, solveOptions, (coordinates, options, control) =>
+        // Ensure geometry is not requested for VROOM matrix
+        geometryMode === 'eager' || needsExtras
+          ? provider.createMatrix(coordinates, { ...options, geometry: false }, geometryMode === 'eager', control)
+          : provider.createCostMatrix(coordinates, options, control)
+      );
+    } finally {
+      finished?.();
+    }
   }
 
-  async solve(problem: VroomProblem, orsOptions: ORSDirectionsOptions = {}): Promise<VroomSolution> {
+  /**
+   * Builds one matrix per vehicle profile with buildEntries, applies the
+   * unreachable-pair policy, solves and finishes the solution.
+   */
+  private async solveWithEntries(
+    provider: RoutingProvider,
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions,
+    solveOptions: SolveOptions,
+    buildEntries: MatrixBuilder
+  ): Promise<VroomSolution> {
+    const {
+      profileOptions = {},
+      geometry: geometryMode = 'eager',
+      unreachable: unreachablePolicy = 'penalize',
+      signal,
+      onProgress
+    } = solveOptions;
     const locations = this.extractLocations(problem);
+    const coordinates = locations.map(loc => ({ lat: loc[1], lng: loc[0] }));
+    const profile = orsOptions.profile || 'driving-car';
+    const costModel = this.getCostModel(solveOptions);
+    const routingOptions = (vehicleProfile: string) =>
+      this.withExtraInfo(this.getProfileOptions(vehicleProfile, orsOptions, profileOptions), costModel);
+
+    // Build one matrix per distinct vehicle profile
+    const profiles = this.extractProfiles(problem, profile);
+    const matrices: NonNullable<VroomProblem['matrices']> = {};
+    const entryMaps = new Map<string, Map<string, MatrixEntry>>();
+    const profileEntries = new Map<string, MatrixEntry[]>();
+    const allMatrixEntries: MatrixEntry[] = [];
+
+    for (const vehicleProfile of profiles) {
+      this.logger.log(`Building ${locations.length}x${locations.length} matrix for profile ${vehicleProfile}`);
+      const profileOrsOptions = routingOptions(vehicleProfile);
+      const control = this.createRequestControl(solveOptions, 'building_matrix', vehicleProfile);
+      onProgress?.({ phase: 'building_matrix', profile: vehicleProfile, done: 0, total: locations.length * locations.length });
+
+      const started = performance.now();
+      const matrixEntries = await buildEntries(coordinates, profileOrsOptions, control, vehicleProfile);
+      this.metrics?.recordMatrix(provider.name, locations.length, matrixEntries.length, (performance.now() - started) / 1000);
+      profileEntries.set(vehicleProfile, matrixEntries);
+      allMatrixEntries.push(...matrixEntries);
+    }
 
-    // Ensure geometry is not requested for VROOM matrix
-    const matrixEntries = await this.orsClient.createMatrix(
-      locations.map(loc => ({ lat: loc[1], lng: loc[0] })),
-      { ...orsOptions, geometry: false }
-    );
-    const { durations, distances } = this.convertMatrixEntriesToMatrices(matrixEntries, locations.length);
+    // Apply the unreachable-pair policy before handing the matrices to VROOM
+    const unreachable = this.collectUnreachablePairs(profileEntries, locations, problem);
+    let routedProblem = problem;
+    const excluded: VroomSolution['unassigned'] = [];
+    if (unreachable.length > 0) {
+      this.logger.warn(`${unreachable.length} location pairs could not be routed (policy: ${unreachablePolicy})`);
 
-    // Store geometries for route reconstruction
-    const geometryMap = new Map<string, string>();
-    for (const entry of matrixEntries) {
-      if (entry.geometry) {
-        geometryMap.set(`${entry.from}-${entry.to}`, entry.geometry);
+      if (unreachablePolicy === 'fail') {
+        throw new UnreachablePairsError(unreachable);
+      } else if (unreachablePolicy === 'estimate') {
+        this.estimateUnreachableEntries(profileEntries, unreachable, coordinates, routingOptions);
+      } else if (unreachablePolicy === 'exclude') {
+        routedProblem = this.excludeUnreachableTasks(problem, unreachable, locations, profile, excluded);
       }
     }
 
-    const profile = orsOptions.profile || 'driving-car';
+    for (const [vehicleProfile, matrixEntries] of profileEntries) {
+      matrices[vehicleProfile] = this.convertMatrixEntriesToMatrices(matrixEntries, locations.length, costModel, routingOptions(vehicleProfile).units);
+
+      // Store entries (with geometries) for route reconstruction
+      entryMaps.set(vehicleProfile, this.buildEntryMap(matrixEntries));
+    }
+
+    const problemWithMatrix = this.toMatrixProblem(routedProblem, locations, profile, matrices);
 
-    // Convert locations to indices for matrix-based problem
-    const problemWithMatrix: VroomProblem = {
+    onProgress?.({ phase: 'solving' });
+
+    const solution = await this.runSolver(problemWithMatrix, solveOptions.solver, signal);
+
+    if (unreachable.length > 0) {
+      solution.unreachable = unreachable;
+    }
+    if (solveOptions.includeMatrices) {
+      const options = Object.fromEntries(profiles.map(vehicleProfile => [vehicleProfile, routingOptions(vehicleProfile)]));
+      const zoneNames = new Set(Object.values(options).flatMap(matrixOptions => matrixOptions.avoid_zones || []));
+      solution.matrices = {
+        locations,
+        profiles: matrices,
+        provider: provider.name,
+        options,
+        ...(zoneNames.size > 0 && {
+          zones: Object.fromEntries([...zoneNames].flatMap(name => this.zones?.get(name) ? [[name, this.zones.get(name)!.updated_at]] : []))
+        })
+      };
+    }
+    if (excluded.length > 0) {
+      solution.unassigned = [...(solution.unassigned || []), ...excluded];
+      if (solution.summary) {
+        solution.summary.unassigned += excluded.length;
+      }
+    }
+
+    // Second phase of lazy geometry: fetch directions only for the legs VROOM used
+    if (geometryMode === 'lazy' && solution.routes) {
+      for (const vehicleProfile of profiles) {
+        const legs = this.collectRouteLegs(solution, problemWithMatrix, vehicleProfile);
+        if (legs.length === 0) {
+          continue;
+        }
+        this.logger.log(`Fetching geometry for ${legs.length} route legs with profile ${vehicleProfile}`);
+        onProgress?.({ phase: 'fetching_geometry', profile: vehicleProfile, done: 0, total: legs.length });
+        const legEntries = await provider.createLegEntries(
+          coordinates,
+          legs,
+          routingOptions(vehicleProfile),
+          this.createRequestControl(solveOptions, 'fetching_geometry', vehicleProfile)
+        );
+        const entryMap = entryMaps.get(vehicleProfile)!;
+        for (const [key, entry] of this.buildEntryMap(legEntries)) {
+          entryMap.set(key, entry);
+        }
+        allMatrixEntries.push(...legEntries);
+      }
+    }
+
+    await this.finishSolution(solution, {
+      provider,
+      problem: problemWithMatrix,
+      consumption: this.collectConsumption(problem),
+      locations,
+      coordinates,
+      profile,
+      entryMaps,
+      profileEntries,
+      allMatrixEntries,
+      orsOptions,
+      solveOptions
+    });
+
+    return solution;
+  }
+
+  /**
+   * Evaluates fixed stop sequences instead of optimizing. Each vehicle lists
+   * its tasks in order in `steps` and VROOM's plan mode computes arrivals and
+   * flags violations such as missed time windows. Directions are only fetched
+   * for the consecutive legs of each sequence.
+   */
+  async evaluate(
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions = {},
+    solveOptions: SolveOptions = {}
+  ): Promise<VroomSolution> {
+    const finished = this.metrics?.startSolve('evaluate');
+    try {
+      ({ problem, solveOptions } = this.assignMatrixProfiles(problem, orsOptions, solveOptions));
+      const {
+        profileOptions = {},
+        unreachable: unreachablePolicy = 'penalize',
+        signal,
+        onProgress
+      } = solveOptions;
+      if (unreachablePolicy === 'exclude') {
+        throw new InvalidProblemError('The exclude unreachable policy cannot be used to evaluate fixed routes');
+      }
+      // Only the planned legs are routed: a vehicle without steps would be optimized on a zero matrix
+      const unplanned = problem.vehicles.filter(vehicle => !Array.isArray(vehicle.steps));
+      if (unplanned.length > 0) {
+        throw new InvalidProblemError(`Every vehicle needs steps to evaluate fixed routes; missing for vehicles ${unplanned.map(vehicle => vehicle.id).join(', ')}`);
+      }
+
+      const provider = this.getProvider(solveOptions.provider);
+      const locations = this.extractLocations(problem);
+      const coordinates = locations.map(loc => ({ lat: loc[1], lng: loc[0] }));
+      const profile = orsOptions.profile || 'driving-car';
+
+      const plannedLegs = this.collectPlannedLegs(problem, locations, profile);
+      const matrices: NonNullable<VroomProblem['matrices']> = {};
+      const entryMaps = new Map<string, Map<string, MatrixEntry>>();
+      const profileEntries = new Map<string, MatrixEntry[]>();
+      const allMatrixEntries: MatrixEntry[] = [];
+
+      for (const vehicleProfile of this.extractProfiles(problem, profile)) {
+        const legs = plannedLegs.get(vehicleProfile) || [];
+        this.logger.log(`Fetching directions for ${legs.length} planned legs with profile ${vehicleProfile}`);
+        onProgress?.({ phase: 'fetching_geometry', profile: vehicleProfile, done: 0, total: legs.length });
+        const legEntries = await provider.createLegEntries(
+          coordinates,
+          legs,
+          this.getProfileOptions(vehicleProfile, orsOptions, profileOptions),
+          this.createRequestControl(solveOptions, 'fetching_geometry', vehicleProfile)
+        );
+        profileEntries.set(vehicleProfile, legEntries);
+        allMatrixEntries.push(...legEntries);
+      }
+
+      const unreachable = this.collectUnreachablePairs(profileEntries, locations, problem);
+      if (unreachable.length > 0) {
+        this.logger.warn(`${unreachable.length} planned legs could not be routed (policy: ${unreachablePolicy})`);
+
+        if (unreachablePolicy === 'fail') {
+          throw new UnreachablePairsError(unreachable);
+        } else if (unreachablePolicy === 'estimate') {
+          this.estimateUnreachableEntries(profileEntries, unreachable, coordinates, vehicleProfile =>
+            this.getProfileOptions(vehicleProfile, orsOptions, profileOptions)
+          );
+        }
+      }
+
+      // Pairs outside the planned sequences stay at zero; plan mode never uses them
+      for (const [vehicleProfile, legEntries] of profileEntries) {
+        matrices[vehicleProfile] = this.convertMatrixEntriesToMatrices(legEntries, locations.length);
+        entryMaps.set(vehicleProfile, this.buildEntryMap(legEntries));
+      }
+
+      const problemWithMatrix = this.toMatrixProblem(problem, locations, profile, matrices);
+      problemWithMatrix.options = { ...problem.options, c: true };
+
+      onProgress?.({ phase: 'solving' });
+
+      const solution = await this.runSolver(problemWithMatrix, solveOptions.solver, signal);
+
+      if (unreachable.length > 0) {
+        solution.unreachable = unreachable;
+      }
+
+      await this.finishSolution(solution, {
+        provider,
+        problem: problemWithMatrix,
+        consumption: this.collectConsumption(problem),
+        locations,
+        coordinates,
+        profile,
+        entryMaps,
+        profileEntries,
+        allMatrixEntries,
+        orsOptions,
+        solveOptions
+      });
+
+      return solution;
+    } finally {
+      finished?.();
+    }
+  }
+
+  /**
+   * Re-optimizes a dispatched solution with new jobs and shipments. Completed
+   * and in-progress steps stay on their vehicles, and when the previous
+   * solution carries its matrices (SolveOptions.includeMatrices), built with
+   * the same provider and routing options, only the rows and columns of new
+   * locations are fetched. Returns the merged solution and which tasks moved
+   * between vehicles.
+   */
+  async reoptimize(
+    request: ReoptimizeRequest,
+    orsOptions: ORSDirectionsOptions = {},
+    solveOptions: SolveOptions = {}
+  ): Promise<ReoptimizeResult> {
+    const finished = this.metrics?.startSolve('reoptimize');
+    try {
+      const zoned = this.assignMatrixProfiles(request.problem, orsOptions, solveOptions);
+      request = { ...request, problem: zoned.problem };
+      solveOptions = zoned.solveOptions;
+      const provider = this.getProvider(solveOptions.provider);
+      const arrivals = await this.getCurrentArrivals(provider, request, orsOptions, solveOptions);
+      const remaining = buildRemainingProblem(request, arrivals);
+
+      const previous = request.solution.matrices;
+      const locations = this.extractLocations(remaining.problem);
+      const previousIndices = locations.map(location => previous
+        ? previous.locations.findIndex(known => known[0] === location[0] && known[1] === location[1])
+        : -1
+      );
+      const newIndices = previousIndices.flatMap((previousIndex, index) => previousIndex < 0 ? [index] : []);
+      if (previous) {
+        this.logger.log(`Reusing matrices for ${locations.length - newIndices.length} locations, fetching ${newIndices.length} new locations`);
+      }
+
+      const solution = await this.solveWithEntries(
+        provider,
+        remaining.problem,
+        orsOptions,
+        // Reused entries have no geometry, so it is fetched for the solution's legs afterwards
+        { ...solveOptions, geometry: solveOptions.geometry === 'none' ? 'none' : 'lazy' },
+        // Reused and table entries carry no extra_info, so cost models only price their distance and duration
+        async (coordinates, options, control, matrixProfile) => {
+          const matrix = previous?.profiles[matrixProfile];
+          // Matrices of another provider or other routing options are rebuilt
+          const reusable = previous?.provider === provider.name &&
+            this.routingKey(previous.options?.[matrixProfile], name => previous.zones?.[name]) ===
+              this.routingKey(options, name => this.zoneRevision(name));
+          if (!matrix?.durations || !matrix.distances || !reusable) {
+            return provider.createCostMatrix(coordinates, options, control);
+          }
+          const entries: MatrixEntry[] = [];
+          previousIndices.forEach((from, i) => previousIndices.forEach((to, j) => {
+            if (from < 0 || to < 0) {
+              return;
+            }
+            const duration = matrix.durations![from][to];
+            const distance = matrix.distances![from][to];
+            // Pairs that could not be routed before face the unreachable policy again
+            const unreachable = duration >= UNREACHABLE_DURATION || distance >= UNREACHABLE_DISTANCE * MATRIX_DISTANCE_SCALE;
+            entries.push({
+              from: i,
+              to: j,
+              distance: distance / MATRIX_DISTANCE_SCALE,
+              duration,
+              ...(unreachable && { error: 'No route found in the previous solve' })
+            });
+          }));
+          entries.push(...await provider.createPartialMatrix(coordinates, newIndices, options, control));
+          return entries;
+        }
+      );
+
+      mergeLockedSteps(solution, remaining, request.solution);
+      return { solution, diff: diffAssignments(request, solution, remaining) };
+    } finally {
+      finished?.();
+    }
+  }
+
+  // Recomputes the arrival at each vehicle's in-progress step from its current position
+  private async getCurrentArrivals(
+    provider: RoutingProvider,
+    request: ReoptimizeRequest,
+    orsOptions: ORSDirectionsOptions,
+    solveOptions: SolveOptions
+  ): Promise<Map<number, number>> {
+    const arrivals = new Map<number, number>();
+    if (request.time === undefined) {
+      return arrivals;
+    }
+
+    for (const state of request.vehicles || []) {
+      const route = request.solution.routes?.find(r => r.vehicle === state.id);
+      const next = state.completed_steps > 0 ? route?.steps[state.completed_steps] : undefined;
+      if (!state.position || !next?.location) {
+        continue;
+      }
+
+      const vehicle = request.problem.vehicles.find(v => v.id === state.id);
+      const vehicleProfile = vehicle?.profile || orsOptions.profile || 'driving-car';
+      try {
+        const [leg] = await provider.getRouteSegments(
+          [state.position, next.location].map(([lng, lat]) => ({ lat, lng })),
+          { ...this.getProfileOptions(vehicleProfile, orsOptions, solveOptions.profileOptions || {}), geometry: false },
+          { signal: solveOptions.signal, onPairsRequested: solveOptions.onPairsRequested, priority: solveOptions.priority }
+        );
+        arrivals.set(state.id, request.time + leg.duration);
+      } catch (error) {
+        if (solveOptions.signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn(`Failed to update the arrival of vehicle ${state.id}, keeping the planned one:`, error);
+      }
+    }
+
+    return arrivals;
+  }
+
+  /**
+   * Recomputes the arrivals of a vehicle's remaining steps from its reported
+   * position. One directions request runs from the position through every
+   * remaining step; service starts are then rolled forward over the task time
+   * windows and steps whose slack drops below `riskMargin` seconds are flagged.
+   */
+  async updateEta(
+    problem: VroomProblem,
+    solution: VroomSolution,
+    update: PositionUpdate,
+    orsOptions: ORSDirectionsOptions = {},
+    solveOptions: SolveOptions = {},
+    riskMargin: number = DEFAULT_RISK_MARGIN
+  ): Promise<EtaUpdate> {
+    const route = solution.routes?.find(r => r.vehicle === update.vehicle);
+    if (!route) {
+      throw new Error(`Vehicle ${update.vehicle} has no route in the solution`);
+    }
+
+    const next = findNextStep(route, update.time, update.completed_steps);
+    const remaining = route.steps.slice(next);
+    const result: EtaUpdate = {
+      vehicle: update.vehicle,
+      time: update.time,
+      next_step: next,
+      distance: 0,
+      duration: 0,
+      steps: [],
+      at_risk: 0
+    };
+    if (remaining.length === 0) {
+      return result;
+    }
+
+    // Consecutive steps at the same place share a waypoint and have no travel time
+    const waypoints: Array<[number, number]> = [update.position];
+    const waypointOf = remaining.map((step, k) => {
+      if (!step.location) {
+        throw new Error(`Step ${next + k} of vehicle ${update.vehicle} has no location`);
+      }
+      const last = waypoints[waypoints.length - 1];
+      if (step.location[0] !== last[0] || step.location[1] !== last[1]) {
+        waypoints.push(step.location);
+      }
+      return waypoints.length - 1;
+    });
+
+    ({ problem, solveOptions } = this.assignMatrixProfiles(problem, orsOptions, solveOptions));
+    const vehicle = problem.vehicles.find(v => v.id === update.vehicle);
+    const vehicleProfile = vehicle?.profile || orsOptions.profile || 'driving-car';
+    const segments = waypoints.length > 1
+      ? await this.getProvider(solveOptions.provider).getRouteSegments(
+        waypoints.map(([lng, lat]) => ({ lat, lng })),
+        { ...this.getProfileOptions(vehicleProfile, orsOptions, solveOptions.profileOptions || {}), geometry: false },
+        {
+          signal: solveOptions.signal,
+          onRateLimit: solveOptions.onRateLimit,
+          onPairsRequested: solveOptions.onPairsRequested,
+          priority: solveOptions.priority
+        }
+      )
+      : [];
+
+    const legDurations = waypointOf.map((waypoint, k) => {
+      const previous = k === 0 ? 0 : waypointOf[k - 1];
+      return waypoint === previous ? 0 : segments[waypoint - 1].duration;
+    });
+    result.steps = computeStepEtas(route, problem, next, legDurations, update.time, riskMargin);
+    result.distance = segments.reduce((sum, segment) => sum + segment.distance, 0);
+    result.duration = segments.reduce((sum, segment) => sum + segment.duration, 0);
+    result.at_risk = result.steps.filter(step => step.at_risk).length;
+    return result;
+  }
+
+  // Collects the consecutive [from, to] location index pairs of each vehicle's fixed steps, per profile
+  private collectPlannedLegs(
+    problem: VroomProblem,
+    locations: Array<[number, number]>,
+    defaultProfile: string
+  ): Map<string, Array<[number, number]>> {
+    const plannedLegs = new Map<string, Map<string, [number, number]>>();
+
+    for (const vehicle of problem.vehicles) {
+      if (!vehicle.steps) {
+        continue;
+      }
+
+      const sequence: number[] = [];
+      if (vehicle.start) {
+        sequence.push(this.mapLocationToIndex(vehicle.start, locations));
+      }
+      for (const step of vehicle.steps) {
+        if (step.type !== 'job' && step.type !== 'pickup' && step.type !== 'delivery') {
+          continue;
+        }
+        const index = this.findLocationIndex(step, locations, problem);
+        if (index < 0) {
+          throw new InvalidProblemError(`Vehicle ${vehicle.id} step ${step.type} ${step.id} does not match a task with a location`);
+        }
+        sequence.push(index);
+      }
+      if (vehicle.end) {
+        sequence.push(this.mapLocationToIndex(vehicle.end, locations));
+      }
+
+      const vehicleProfile = vehicle.profile || defaultProfile;
+      if (!plannedLegs.has(vehicleProfile)) {
+        plannedLegs.set(vehicleProfile, new Map());
+      }
+      const legs = plannedLegs.get(vehicleProfile)!;
+      for (let i = 0; i < sequence.length - 1; i++) {
+        if (sequence[i] !== sequence[i + 1]) {
+          legs.set(`${sequence[i]}-${sequence[i + 1]}`, [sequence[i], sequence[i + 1]]);
+        }
+      }
+    }
+
+    return new Map(Array.from(plannedLegs, ([profile, legs]) => [profile, Array.from(legs.values())]));
+  }
+
+  // Replaces coordinates with indices into the locations array and attaches the matrices
+  private toMatrixProblem(
+    problem: VroomProblem,
+    locations: Array<[number, number]>,
+    profile: string,
+    matrices: NonNullable<VroomProblem['matrices']>
+  ): VroomProblem {
+    return {
       ...problem,
       jobs: problem.jobs.map(job => {
         if (!job.location) {
-          throw new Error(`Job ${job.id} must have a location when using matrix-based routing`);
+          throw new InvalidProblemError(`Job ${job.id} must have a location when using matrix-based routing`);
         }
         const { location, ...jobWithoutLocation } = job;
         return {
@@ -73,7 +704,7 @@ export class VroomORS {
         return convertedShipment;
       }),
       vehicles: problem.vehicles.map(vehicle => {
-        const { start, end, ...vehicleWithoutLocations } = vehicle;
+        const { start, end, consumption: _consumption, ...vehicleWithoutLocations } = vehicle;
         return {
           ...vehicleWithoutLocations,
           profile: vehicle.profile || profile, // Use vehicle's profile or default to the matrix profile
@@ -81,33 +712,42 @@ export class VroomORS {
           end_index: vehicle.end ? this.mapLocationToIndex(vehicle.end, locations) : undefined
         };
       }),
-      matrices: {
-        [profile]: {
-          durations,
-          distances
-        }
-      }
+      matrices
     };
+  }
 
-    const response = await fetch(this.vroomEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(problemWithMatrix)
-    });
+  /**
+   * Adds everything derived from the routing entries to a solution returned by
+   * the solver: cache statistics, step locations, leg geometry, estimate
+   * counts and, when requested, turn-by-turn instructions.
+   */
+  private async finishSolution(solution: VroomSolution, context: SolutionContext): Promise<void> {
+    const {
+      provider,
+      problem,
+      consumption,
+      locations,
+      coordinates,
+      profile,
+      entryMaps,
+      profileEntries,
+      allMatrixEntries,
+      orsOptions,
+      solveOptions
+    } = context;
+    const { profileOptions = {} } = solveOptions;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`VROOM API error: ${response.status} - ${errorText}`);
+    if (this.directionsCache) {
+      solution.cache = this.getCacheStats(allMatrixEntries);
     }
-
-    const solution: VroomSolution = await response.json();
+    this.metrics?.recordUnassigned(solution.unassigned?.length ?? 0);
 
     // Add geometry to routes
     if (solution.routes) {
       for (const route of solution.routes) {
+        const vehicle = problem.vehicles.find(v => v.id === route.vehicle);
+        const entryMap = entryMaps.get(vehicle?.profile || profile) || new Map<string, MatrixEntry>();
+
         // Add location field to each step using location_index
         if (route.steps && Array.isArray(route.steps)) {
           for (const step of route.steps) {
@@ -117,58 +757,658 @@ export class VroomORS {
           }
         }
 
-        // Geometry logic (only if geometryMap is populated)
+        // Geometry logic (only if the entries carry geometry, never in 'none' mode)
         if (route.steps && route.steps.length > 1) {
-          const routeGeometries: string[] = [];
-          for (let i = 0; i < route.steps.length - 1; i++) {
-            const currentStep = route.steps[i];
-            const nextStep = route.steps[i + 1];
-            const fromIndex = currentStep.location_index;
-            const toIndex = nextStep.location_index;
-            if (fromIndex != null && toIndex != null) {
-              const geometry = geometryMap.get(`${fromIndex}-${toIndex}`);
-              if (geometry) {
-                routeGeometries.push(geometry);
-              }
-            }
-          }
-          if (routeGeometries.length > 0) {
-            console.log(`Combining ${routeGeometries.length} geometry segments for route`);
-            try {
-              const decodedSegments: [number, number][][] = [];
-              for (const geom of routeGeometries) {
-                if (geom && geom.length > 0) {
-                  const coordinates = polyline.decode(geom);
-                  decodedSegments.push(coordinates);
-                }
-              }
-              if (decodedSegments.length > 0) {
-                const combinedCoordinates: [number, number][] = [];
-                for (let i = 0; i < decodedSegments.length; i++) {
-                  const segment = decodedSegments[i];
-                  if (i === 0) {
-                    combinedCoordinates.push(...segment);
-                  } else {
-                    combinedCoordinates.push(...segment.slice(1));
-                  }
-                }
-                const combinedPolyline = polyline.encode(combinedCoordinates);
-                (route as any).geometry = combinedPolyline;
-                console.log(`Combined route geometry: ${combinedCoordinates.length} points -> ${combinedPolyline.substring(0, 50)}...`);
-              }
-            } catch (error) {
-              console.warn('Failed to combine polylines:', error);
-              const validGeometry = routeGeometries.find(g => g && g.length > 0);
-              if (validGeometry) {
-                (route as any).geometry = validGeometry;
-              }
-            }
+          this.stitchRoute(route, entryMap);
+        }
+      }
+    }
+
+    const tolled = (solution.routes || []).filter(route => route.toll_distance !== undefined);
+    if (tolled.length > 0 && solution.summary) {
+      solution.summary.toll_distance = tolled.reduce((sum, route) => sum + route.toll_distance!, 0);
+    }
+
+    // Flag approximated pairs so planners know which legs are estimates
+    const estimatedPairs = Array.from(profileEntries.values()).flat().filter(entry => entry?.estimated).length;
+    if (estimatedPairs > 0) {
+      const routeLegs = (solution.routes || [])
+        .flatMap(route => route.steps)
+        .filter(step => step.leg?.estimated).length;
+      solution.estimated = { pairs: estimatedPairs, route_legs: routeLegs };
+    }
+
+    if (solveOptions.instructions && solution.routes) {
+      for (const route of solution.routes) {
+        const vehicle = problem.vehicles.find(v => v.id === route.vehicle);
+        const vehicleProfile = vehicle?.profile || profile;
+        await this.attachInstructions(
+          provider,
+          route,
+          coordinates,
+          this.getProfileOptions(vehicleProfile, orsOptions, profileOptions),
+          this.createRequestControl(solveOptions, 'fetching_instructions', vehicleProfile)
+        );
+      }
+    }
+
+    if (solveOptions.elevation && solution.routes) {
+      for (const route of solution.routes) {
+        const vehicle = problem.vehicles.find(v => v.id === route.vehicle);
+        const vehicleProfile = vehicle?.profile || profile;
+        await this.attachElevation(
+          provider,
+          route,
+          coordinates,
+          this.getProfileOptions(vehicleProfile, orsOptions, profileOptions),
+          this.createRequestControl(solveOptions, 'fetching_elevation', vehicleProfile),
+          consumption.get(route.vehicle)
+        );
+      }
+
+      const routesWithEnergy = solution.routes.filter(route => route.energy !== undefined);
+      if (routesWithEnergy.length > 0 && solution.summary) {
+        solution.summary.energy = routesWithEnergy.reduce((sum, route) => sum + route.energy!, 0);
+      }
+    }
+  }
+
+  /**
+   * Requests the route with elevation and attaches its ascent, descent and
+   * elevation profile. With a consumption model, each step's leg and the route
+   * get an energy estimate and the route is flagged when it needs more than
+   * the battery holds.
+   */
+  private async attachElevation(
+    provider: RoutingProvider,
+    route: VroomRoute,
+    coordinates: Coordinate[],
+    orsOptions: ORSDirectionsOptions,
+    control: RequestControl,
+    consumption?: ConsumptionModel
+  ): Promise<void> {
+    const waypoints: number[] = [];
+    for (const step of route.steps) {
+      if (step.location_index != null && step.location_index !== waypoints[waypoints.length - 1]) {
+        waypoints.push(step.location_index);
+      }
+    }
+    if (waypoints.length < 2) {
+      return;
+    }
+
+    let elevationRoute: ElevationRoute;
+    try {
+      elevationRoute = await provider.getElevationRoute(waypoints.map(index => coordinates[index]), orsOptions, control);
+    } catch (error) {
+      if (control.signal?.aborted) {
+        throw error;
+      }
+      this.logger.warn(`Failed to get elevation for vehicle ${route.vehicle}:`, error);
+      return;
+    }
+    const { segments, points } = elevationRoute;
+    if (points.length === 0) {
+      this.logger.warn(`The ${provider.name} routing provider returned no elevation for vehicle ${route.vehicle}`);
+    }
+
+    const kmPerUnit = this.kilometersPerUnit(orsOptions.units);
+    let segmentIndex = 0;
+    route.ascent = 0;
+    route.descent = 0;
+    if (consumption) {
+      route.energy = 0;
+    }
+    for (let i = 1; i < route.steps.length; i++) {
+      const fromIndex = route.steps[i - 1].location_index;
+      const toIndex = route.steps[i].location_index;
+      const segment = fromIndex != null && toIndex != null && fromIndex !== toIndex
+        ? segments[segmentIndex++]
+        : undefined;
+      const step = route.steps[i];
+      const ascent = segment?.ascent ?? 0;
+      const descent = segment?.descent ?? 0;
+      step.leg = { ...(step.leg ?? { distance: segment?.distance ?? 0, duration: segment?.duration ?? 0 }), ascent, descent };
+      route.ascent += ascent;
+      route.descent += descent;
+
+      if (consumption) {
+        step.leg.energy = estimateEnergy(consumption, (segment?.distance ?? 0) * kmPerUnit, ascent, descent);
+        route.energy! += step.leg.energy;
+      }
+    }
+
+    if (points.length > 0) {
+      route.elevation_profile = buildElevationProfile(points)
+        .map(([distance, elevation]) => [distance / kmPerUnit, elevation]);
+    }
+    if (consumption?.battery !== undefined) {
+      route.battery_exceeded = route.energy! > consumption.battery;
+    }
+  }
+
+  // Kilometers in one ORS distance unit
+  private kilometersPerUnit(units: ORSDirectionsOptions['units'] = 'km'): number {
+    switch (units) {
+      case 'm':
+        return 0.001;
+      case 'mi':
+        return 1.609344;
+      default:
+        return 1;
+    }
+  }
+
+  private collectConsumption(problem: VroomProblem): Map<number, ConsumptionModel> {
+    return new Map(problem.vehicles.flatMap(vehicle => vehicle.consumption ? [[vehicle.id, vehicle.consumption] as const] : []));
+  }
+
+  /**
+   * Requests turn-by-turn instructions along a route and attaches them as one
+   * leg per pair of consecutive steps. Consecutive steps at the same location
+   * get an empty leg instead of a zero-length ORS segment.
+   */
+  private async attachInstructions(
+    provider: RoutingProvider,
+    route: VroomRoute,
+    coordinates: Coordinate[],
+    orsOptions: ORSDirectionsOptions,
+    control: RequestControl
+  ): Promise<void> {
+    if (!route.steps || route.steps.length < 2) {
+      return;
+    }
+
+    // Waypoints through the route, skipping consecutive duplicates
+    const waypoints: number[] = [];
+    for (const step of route.steps) {
+      if (step.location_index != null && step.location_index !== waypoints[waypoints.length - 1]) {
+        waypoints.push(step.location_index);
+      }
+    }
+
+    let segments: ORSSegment[] = [];
+    if (waypoints.length > 1) {
+      try {
+        segments = await provider.getRouteSegments(
+          waypoints.map(index => coordinates[index]),
+          { ...orsOptions, instructions: true, geometry: false },
+          control
+        );
+      } catch (error) {
+        if (control.signal?.aborted) {
+          throw error;
+        }
+        this.logger.warn(`Failed to get instructions for vehicle ${route.vehicle}:`, error);
+        return;
+      }
+    }
+
+    const legs: RouteLeg[] = [];
+    let segmentIndex = 0;
+    for (let i = 0; i < route.steps.length - 1; i++) {
+      const fromIndex = route.steps[i].location_index;
+      const toIndex = route.steps[i + 1].location_index;
+      const segment = fromIndex != null && toIndex != null && fromIndex !== toIndex
+        ? segments[segmentIndex++]
+        : undefined;
+
+      // Step way_points index the whole route geometry; rebase them onto the leg
+      const offset = segment?.steps[0]?.way_points?.[0] ?? 0;
+      legs.push({
+        from_step: i,
+        to_step: i + 1,
+        distance: segment?.distance ?? 0,
+        duration: segment?.duration ?? 0,
+        instructions: (segment?.steps || []).map((step: any) => ({
+          text: step.instruction,
+          distance: step.distance,
+          duration: step.duration,
+          type: step.type,
+          name: step.name,
+          way_points: [step.way_points[0] - offset, step.way_points[1] - offset]
+        }))
+      });
+    }
+
+    route.legs = legs;
+  }
+
+  // Runs the solver, recording its latency and result code
+  private async runSolver(problem: VroomProblem, options: SolveOptions['solver'], signal?: AbortSignal): Promise<VroomSolution> {
+    const started = performance.now();
+    const record = (code: number | string) =>
+      this.metrics?.recordVroomSolve(this.solver.name, code, (performance.now() - started) / 1000);
+    try {
+      const solution = await this.solver.solve(problem, options, signal);
+      record(solution.code ?? 0);
+      return solution;
+    } catch (error) {
+      record(error instanceof VroomError ? error.code : 'error');
+      throw error;
+    }
+  }
+
+  private createRequestControl(solveOptions: SolveOptions, phase: SolvePhase, profile: string): RequestControl {
+    const { signal, onProgress, onPairFailed, onRateLimit, onPairsRequested, priority } = solveOptions;
+    return {
+      signal,
+      priority,
+      onProgress: (done, total) => onProgress?.({ phase, profile, done, total }),
+      onPairFailed: (from, to, error) => onPairFailed?.({ profile, from, to, error }),
+      onRateLimit,
+      onPairsRequested
+    };
+  }
+
+  private collectUnreachablePairs(
+    profileEntries: Map<string, MatrixEntry[]>,
+    locations: Array<[number, number]>,
+    problem: VroomProblem
+  ): UnreachablePair[] {
+    const references = this.buildLocationReferences(problem, locations);
+    const unreachable: UnreachablePair[] = [];
+
+    for (const [profile, entries] of profileEntries) {
+      for (const entry of entries) {
+        if (!entry?.error) {
+          continue;
+        }
+        const from = references.get(entry.from);
+        const to = references.get(entry.to);
+        const unique = (a: number[] = [], b: number[] = []) => Array.from(new Set([...a, ...b]));
+        unreachable.push({
+          profile,
+          from_index: entry.from,
+          to_index: entry.to,
+          from: locations[entry.from],
+          to: locations[entry.to],
+          error: entry.error,
+          jobs: unique(from?.jobs, to?.jobs),
+          shipments: unique(from?.shipments, to?.shipments),
+          vehicles: unique(from?.vehicles, to?.vehicles)
+        });
+      }
+    }
+
+    return unreachable;
+  }
+
+  // Maps each location index to the ids of the jobs, shipments and vehicles using it
+  private buildLocationReferences(
+    problem: VroomProblem,
+    locations: Array<[number, number]>
+  ): Map<number, { jobs: number[]; shipments: number[]; vehicles: number[] }> {
+    const references = new Map<number, { jobs: number[]; shipments: number[]; vehicles: number[] }>();
+    const add = (location: [number, number] | undefined, kind: 'jobs' | 'shipments' | 'vehicles', id: number) => {
+      if (!location) {
+        return;
+      }
+      const index = this.mapLocationToIndex(location, locations);
+      if (!references.has(index)) {
+        references.set(index, { jobs: [], shipments: [], vehicles: [] });
+      }
+      const ids = references.get(index)![kind];
+      if (!ids.includes(id)) {
+        ids.push(id);
+      }
+    };
+
+    for (const job of problem.jobs) {
+      add(job.location, 'jobs', job.id);
+    }
+    for (const shipment of problem.shipments || []) {
+      add(shipment.pickup?.location, 'shipments', shipment.id);
+      add(shipment.delivery?.location, 'shipments', shipment.id);
+    }
+    for (const vehicle of problem.vehicles) {
+      add(vehicle.start, 'vehicles', vehicle.id);
+      add(vehicle.end, 'vehicles', vehicle.id);
+    }
+
+    return references;
+  }
+
+  // Replaces failed entries with a straight-line estimate, in the ORS profile
+  // and units the matrix profile routes with
+  private estimateUnreachableEntries(
+    profileEntries: Map<string, MatrixEntry[]>,
+    unreachable: UnreachablePair[],
+    coordinates: Coordinate[],
+    routingOptions: (profile: string) => ORSDirectionsOptions
+  ): void {
+    for (const pair of unreachable) {
+      const entries = profileEntries.get(pair.profile) || [];
+      const entry = entries.find(e => e && e.from === pair.from_index && e.to === pair.to_index);
+      if (!entry) {
+        continue;
+      }
+      const { profile, units } = routingOptions(pair.profile);
+      const estimate = this.estimator.estimate(coordinates[entry.from], coordinates[entry.to], profile, units);
+      entry.distance = estimate.distance;
+      entry.duration = estimate.duration;
+      entry.estimated = true;
+      pair.estimated = true;
+    }
+  }
+
+  /**
+   * Removes the jobs and shipments that no vehicle able to serve them (same
+   * skills) can reach from its start and return from to its end, and records
+   * them as unassigned the way VROOM reports unassigned tasks. Pairs between
+   * tasks keep their penalty, and vehicles are never removed.
+   */
+  private excludeUnreachableTasks(
+    problem: VroomProblem,
+    unreachable: UnreachablePair[],
+    locations: Array<[number, number]>,
+    defaultProfile: string,
+    excluded: VroomSolution['unassigned']
+  ): VroomProblem {
+    const failures = new Map<string, string>();
+    for (const pair of unreachable) {
+      failures.set(`${pair.profile}:${pair.from_index}-${pair.to_index}`, pair.error);
+    }
+    const indexOf = (location: [number, number] | undefined) =>
+      location ? this.mapLocationToIndex(location, locations) : undefined;
+
+    // The error of the first leg a vehicle cannot drive, or null when it can serve the task.
+    // legs lists the task's consecutive locations: the job, or a shipment's pickup and delivery.
+    const vehicleError = (vehicle: VroomVehicle, legs: Array<number | undefined>): string | null => {
+      const profile = vehicle.profile || defaultProfile;
+      const stops = [indexOf(vehicle.start), ...legs, indexOf(vehicle.end)];
+      for (let i = 1; i < stops.length; i++) {
+        const from = stops[i - 1];
+        const to = stops[i];
+        const error = from !== undefined && to !== undefined && from !== to
+          ? failures.get(`${profile}:${from}-${to}`)
+          : undefined;
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    };
+    // Undefined when some capable vehicle reaches the task, otherwise the reason
+    const unreachableReason = (skills: number[] = [], legs: Array<number | undefined>): string | undefined => {
+      let reason = 'no vehicle has the required skills';
+      for (const vehicle of problem.vehicles) {
+        if (!skills.every(skill => vehicle.skills?.includes(skill))) {
+          continue;
+        }
+        const error = vehicleError(vehicle, legs);
+        if (error === null) {
+          return undefined;
+        }
+        reason = error;
+      }
+      return reason;
+    };
+    // Only tasks at a location of a failed pair can have become unreachable
+    const failedLocations = new Set(unreachable.flatMap(pair => [pair.from_index, pair.to_index]));
+
+    const excludedJobs = new Set<number>();
+    for (const job of problem.jobs) {
+      const index = indexOf(job.location);
+      if (index === undefined || !failedLocations.has(index)) {
+        continue;
+      }
+      const reason = unreachableReason(job.skills, [index]);
+      if (reason !== undefined) {
+        excludedJobs.add(job.id);
+        excluded.push({ id: job.id, type: 'job', location: job.location!, reason: `Unreachable: ${reason}` });
+      }
+    }
+
+    const excludedShipments = new Set<number>();
+    for (const shipment of problem.shipments || []) {
+      const pickup = indexOf(shipment.pickup?.location);
+      const delivery = indexOf(shipment.delivery?.location);
+      if (![pickup, delivery].some(index => index !== undefined && failedLocations.has(index))) {
+        continue;
+      }
+      const reason = unreachableReason(shipment.skills, [pickup, delivery]);
+      if (reason !== undefined) {
+        excludedShipments.add(shipment.id);
+        for (const type of ['pickup', 'delivery'] as const) {
+          const step = shipment[type];
+          if (step?.location) {
+            excluded.push({ id: step.id ?? shipment.id, type, location: step.location, reason: `Unreachable: ${reason}` });
           }
         }
       }
     }
 
-    return solution;
+    this.logger.warn(`Excluding ${excludedJobs.size} jobs and ${excludedShipments.size} shipments with unreachable locations`);
+    return {
+      ...problem,
+      jobs: problem.jobs.filter(job => !excludedJobs.has(job.id)),
+      shipments: problem.shipments?.filter(shipment => !excludedShipments.has(shipment.id))
+    };
+  }
+
+  // The routing options that shape a matrix, to compare a stored matrix's with a request's.
+  // Avoided zones count with their revision, so matrices routed around an older polygon are rebuilt.
+  private routingKey(
+    options: ORSDirectionsOptions | undefined,
+    revision: (zone: string) => string | undefined
+  ): string | undefined {
+    return options && JSON.stringify({
+      profile: options.profile || 'driving-car',
+      preference: options.preference,
+      units: options.units || 'km',
+      maximum_speed: options.maximum_speed,
+      avoid_zones: options.avoid_zones?.map(name => [name, revision(name)]),
+      options: options.options
+    });
+  }
+
+  // When the named zone was last changed, or undefined for an unknown zone
+  private zoneRevision(name: string): string | undefined {
+    return this.zones?.get(name)?.updated_at;
+  }
+
+  private buildEntryMap(entries: MatrixEntry[]): Map<string, MatrixEntry> {
+    const entryMap = new Map<string, MatrixEntry>();
+    for (const entry of entries) {
+      if (entry) {
+        entryMap.set(`${entry.from}-${entry.to}`, entry);
+      }
+    }
+    return entryMap;
+  }
+
+  /**
+   * Attaches the incoming leg (distance, duration, polyline and its index range
+   * in the route geometry) to each step and combines the leg polylines into the
+   * route geometry.
+   */
+  private stitchRoute(route: VroomRoute, entryMap: Map<string, MatrixEntry>): void {
+    const combinedCoordinates: [number, number][] = [];
+    let segmentCount = 0;
+    let tollDistance: number | undefined;
+
+    for (let i = 1; i < route.steps.length; i++) {
+      const fromIndex = route.steps[i - 1].location_index;
+      const toIndex = route.steps[i].location_index;
+      if (fromIndex == null || toIndex == null) {
+        continue;
+      }
+
+      const entry = entryMap.get(`${fromIndex}-${toIndex}`);
+      const leg: StepLeg = {
+        distance: entry?.distance ?? 0,
+        duration: entry?.duration ?? 0,
+        geometry: entry?.geometry,
+        ...(entry?.estimated && { estimated: true })
+      };
+
+      const legToll = getTollDistance(entry?.extras);
+      if (legToll !== undefined) {
+        tollDistance = (tollDistance ?? 0) + legToll;
+      }
+
+      if (entry?.geometry) {
+        try {
+          const segment = polyline.decode(entry.geometry);
+          // Consecutive legs share their boundary point
+          const start = Math.max(combinedCoordinates.length - 1, 0);
+          combinedCoordinates.push(...(combinedCoordinates.length > 0 ? segment.slice(1) : segment));
+          leg.geometry_range = [start, combinedCoordinates.length - 1];
+          segmentCount++;
+        } catch (error) {
+          this.logger.warn(`Failed to decode leg geometry ${fromIndex}-${toIndex}:`, error);
+        }
+      } else if (fromIndex === toIndex && combinedCoordinates.length > 0) {
+        const index = combinedCoordinates.length - 1;
+        leg.geometry_range = [index, index];
+      }
+
+      route.steps[i].leg = leg;
+    }
+
+    if (tollDistance !== undefined) {
+      route.toll_distance = tollDistance;
+    }
+
+    if (segmentCount > 0) {
+      this.logger.log(`Combining ${segmentCount} geometry segments for route`);
+      const combinedPolyline = polyline.encode(combinedCoordinates);
+      route.geometry = combinedPolyline;
+      this.logger.log(`Combined route geometry: ${combinedCoordinates.length} points -> ${combinedPolyline.substring(0, 50)}...`);
+    }
+  }
+
+  private collectRouteLegs(
+    solution: VroomSolution,
+    problemWithMatrix: VroomProblem,
+    profile: string
+  ): Array<[number, number]> {
+    const legs = new Map<string, [number, number]>();
+    for (const route of solution.routes) {
+      const vehicle = problemWithMatrix.vehicles.find(v => v.id === route.vehicle);
+      if (vehicle?.profile !== profile || !route.steps) {
+        continue;
+      }
+      for (let i = 0; i < route.steps.length - 1; i++) {
+        const fromIndex = route.steps[i].location_index;
+        const toIndex = route.steps[i + 1].location_index;
+        if (fromIndex != null && toIndex != null && fromIndex !== toIndex) {
+          legs.set(`${fromIndex}-${toIndex}`, [fromIndex, toIndex]);
+        }
+      }
+    }
+    return Array.from(legs.values());
+  }
+
+  private extractProfiles(problem: VroomProblem, defaultProfile: string): string[] {
+    const profiles = new Set<string>();
+    for (const vehicle of problem.vehicles) {
+      profiles.add(vehicle.profile || defaultProfile);
+    }
+    return Array.from(profiles);
+  }
+
+  /**
+   * Moves vehicles that route differently from their profile to a matrix
+   * profile of their own: vehicles whose type avoids restricted zones
+   * (SolveOptions.vehicleZones) and driving-hgv vehicles with restrictions.
+   * Vehicles with the same profile, zones and restrictions share the matrix.
+   */
+  private assignMatrixProfiles(
+    problem: VroomProblem,
+    orsOptions: ORSDirectionsOptions,
+    solveOptions: SolveOptions
+  ): { problem: VroomProblem; solveOptions: SolveOptions } {
+    const { vehicleZones = {}, profileOptions = {} } = solveOptions;
+    const hasRestrictions = (vehicle: VroomVehicle) => Object.keys(vehicle.restrictions || {}).length > 0;
+    if (Object.keys(vehicleZones).length === 0 && !problem.vehicles.some(hasRestrictions)) {
+      return { problem, solveOptions };
+    }
+
+    const matrixOptions: ProfileOptions = { ...profileOptions };
+    const vehicles = problem.vehicles.map(original => {
+      // VROOM does not know the restrictions, they only shape the matrix
+      const { restrictions, ...vehicle } = original;
+      const zones = vehicle.type !== undefined ? vehicleZones[vehicle.type] : undefined;
+      if (!zones?.length && !hasRestrictions(original)) {
+        return vehicle;
+      }
+
+      const profile = vehicle.profile || (hasRestrictions(original) ? 'driving-hgv' : orsOptions.profile || 'driving-car');
+      const base = profileOptions[profile] || {};
+      const orsProfile = base.profile || profile;
+      const variants: string[] = [];
+      const options: ORSDirectionsOptions = { ...base, profile: orsProfile as ORSDirectionsOptions['profile'] };
+
+      if (zones?.length) {
+        const names = Array.from(new Set(zones)).sort();
+        variants.push(`avoid=${names.join(',')}`);
+        options.avoid_zones = [...(base.avoid_zones || []), ...names];
+      }
+
+      if (restrictions && hasRestrictions(original)) {
+        if (orsProfile !== 'driving-hgv') {
+          throw new InvalidProblemError(`Vehicle ${vehicle.id} has HGV restrictions but routes with profile ${orsProfile}`);
+        }
+        const sorted = Object.entries(restrictions).sort(([a], [b]) => a.localeCompare(b));
+        variants.push(`hgv=${sorted.map(([name, value]) => `${name}=${value}`).join(',')}`);
+        const profileParams = { ...orsOptions.options?.profile_params, ...base.options?.profile_params };
+        options.options = {
+          ...base.options,
+          vehicle_type: base.options?.vehicle_type || orsOptions.options?.vehicle_type || 'hgv',
+          profile_params: {
+            ...profileParams,
+            restrictions: { ...profileParams.restrictions, ...restrictions }
+          }
+        };
+      }
+
+      const matrixProfile = `${profile}:${variants.join(';')}`;
+      matrixOptions[matrixProfile] = options;
+      return { ...vehicle, profile: matrixProfile };
+    });
+
+    return { problem: { ...problem, vehicles }, solveOptions: { ...solveOptions, profileOptions: matrixOptions } };
+  }
+
+  private getCostModel(solveOptions: SolveOptions): CostModel | undefined {
+    return solveOptions.costModel && new CostModel(solveOptions.costModel);
+  }
+
+  // Adds the extra_info a cost model prices to the routing options
+  private withExtraInfo(options: ORSDirectionsOptions, costModel?: CostModel): ORSDirectionsOptions {
+    const extraInfo = costModel?.extraInfo || [];
+    if (extraInfo.length === 0) {
+      return options;
+    }
+    return { ...options, extra_info: Array.from(new Set([...(options.extra_info || []), ...extraInfo])) };
+  }
+
+  private getProfileOptions(
+    profile: string,
+    orsOptions: ORSDirectionsOptions,
+    profileOptions: ProfileOptions
+  ): ORSDirectionsOptions {
+    const overrides = profileOptions[profile] || {};
+    // Custom matrix profiles route with the ORS profile they name
+    const orsProfile = overrides.profile || profile;
+    const avoidZones = Array.from(new Set([...(orsOptions.avoid_zones || []), ...(overrides.avoid_zones || [])]));
+    const options: ORSDirectionsOptions = {
+      ...orsOptions,
+      ...overrides,
+      profile: orsProfile as ORSDirectionsOptions['profile'],
+      avoid_zones: avoidZones.length > 0 ? avoidZones : undefined,
+      options: { ...orsOptions.options, ...overrides.options }
+    };
+
+    // vehicle_type is only accepted by ORS for the driving-hgv profile
+    if (orsProfile !== 'driving-hgv' && options.options?.vehicle_type && !overrides.options?.vehicle_type) {
+      const { vehicle_type, ...otherOptions } = options.options;
+      options.options = otherOptions;
+    }
+
+    return options;
   }
 
   private extractLocations(problem: VroomProblem): Array<[number, number]> {
@@ -227,21 +1467,42 @@ export class VroomORS {
 
   private convertMatrixEntriesToMatrices(
     entries: MatrixEntry[],
-    size: number
-  ): { durations: number[][]; distances: number[][] } {
+    size: number,
+    costModel?: CostModel,
+    units?: ORSDirectionsOptions['units']
+  ): { durations: number[][]; distances: number[][]; costs?: number[][] } {
     const durations: number[][] = Array(size).fill(null).map(() => Array(size).fill(0));
     const distances: number[][] = Array(size).fill(null).map(() => Array(size).fill(0));
+    const costs: number[][] | undefined = costModel && Array(size).fill(null).map(() => Array(size).fill(0));
 
     for (const entry of entries) {
       // Handle null/undefined values by using large but finite numbers
-      const duration = (entry.duration == null || !isFinite(entry.duration)) ? 999999 : Math.round(entry.duration);
-      const distance = (entry.distance == null || !isFinite(entry.distance)) ? 999999000 : Math.round(entry.distance * 1000);
+      const duration = (entry.duration == null || !isFinite(entry.duration)) ? UNREACHABLE_DURATION : Math.round(entry.duration);
+      const distance = Math.round(((entry.distance == null || !isFinite(entry.distance)) ? UNREACHABLE_DISTANCE : entry.distance) * MATRIX_DISTANCE_SCALE);
 
       durations[entry.from][entry.to] = duration;
       distances[entry.from][entry.to] = distance;
+      if (costs) {
+        costs[entry.from][entry.to] = costModel!.cost(entry, units);
+      }
     }
 
-    return { durations, distances };
+    return costs ? { durations, distances, costs } : { durations, distances };
+  }
+
+  private getCacheStats(entries: MatrixEntry[]): CacheStats {
+    const stats: CacheStats = { hits: 0, misses: 0 };
+    for (const entry of entries) {
+      if (entry.cached === undefined) {
+        continue;
+      }
+      if (entry.cached) {
+        stats.hits++;
+      } else {
+        stats.misses++;
+      }
+    }
+    return stats;
   }
 
   private mapLocationToIndex(
@@ -273,17 +1534,17 @@ export class VroomORS {
     }
 
     // For job steps, find job's location
-    if (step.type === 'job' && step.id) {
+    if (step.type === 'job' && step.id !== undefined) {
       const job = problem.jobs.find(j => j.id === step.id);
       if (job?.location) {
         return this.mapLocationToIndex(job.location, locations);
       }
     }
 
-    // For pickup/delivery steps (shipments)
-    if ((step.type === 'pickup' || step.type === 'delivery') && step.id) {
+    // For pickup/delivery steps (shipments); pickup and delivery ids are separate id spaces
+    if ((step.type === 'pickup' || step.type === 'delivery') && step.id !== undefined) {
       const shipment = problem.shipments?.find(s =>
-        s.pickup?.id === step.id || s.delivery?.id === step.id
+        (step.type === 'pickup' ? s.pickup?.id : s.delivery?.id) === step.id
       );
       if (shipment) {
         const location = step.type === 'pickup' ? shipment.pickup?.location : shipment.delivery?.location;
@@ -298,9 +1559,15 @@ export class VroomORS {
 
   async getMatrix(
     locations: Coordinate[],
-    options: ORSDirectionsOptions = {}
-  ): Promise<{ durations: number[][]; distances: number[][] }> {
-    const matrixEntries = await this.orsClient.createMatrix(locations, options);
-    return this.convertMatrixEntriesToMatrices(matrixEntries, locations.length);
+    options: ORSDirectionsOptions = {},
+    control: RequestControl = {},
+    provider?: string
+  ): Promise<{ durations: number[][]; distances: number[][]; cache?: CacheStats }> {
+    // No geometry is returned, so use the table endpoint where the options allow it
+    const matrixEntries = await this.getProvider(provider).createCostMatrix(locations, options, control);
+    return {
+      ...this.convertMatrixEntriesToMatrices(matrixEntries, locations.length),
+      ...(this.directionsCache && { cache: this.getCacheStats(matrixEntries) })
+    };
   }
 }
\ No newline at end of file
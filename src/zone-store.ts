@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import { InvalidProblemError } from './errors.js';
+import { GeoJSONPolygon, Logger, RestrictedZone } from './types.js';
+
+/**
+ * Named restricted zones (low-emission zones, pedestrian areas, ...) that
+ * requests reference by name through `avoid_zones`. Zones are kept in memory
+ * and, given a file path, persisted as a single JSON file that load() reads
+ * back at startup.
+ */
+export class RestrictedZoneStore {
+  private zones = new Map<string, RestrictedZone>();
+  private filePath?: string;
+  private logger: Logger;
+
+  constructor(filePath?: string, logger: Logger = console) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const zones: RestrictedZone[] = JSON.parse(content);
+      this.zones = new Map(zones.map(zone => [zone.name, zone]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(`Failed to read restricted zones from ${this.filePath}:`, error);
+      }
+    }
+  }
+
+  list(): RestrictedZone[] {
+    return Array.from(this.zones.values());
+  }
+
+  get(name: string): RestrictedZone | undefined {
+    return this.zones.get(name);
+  }
+
+  // Names from the list that are not stored
+  findUnknown(names: string[]): string[] {
+    return names.filter(name => !this.zones.has(name));
+  }
+
+  // Creates or replaces a zone
+  async set(name: string, geometry: GeoJSONPolygon, description?: string): Promise<RestrictedZone> {
+    const now = new Date().toISOString();
+    const zone: RestrictedZone = {
+      name,
+      ...(description !== undefined && { description }),
+      geometry,
+      created_at: this.zones.get(name)?.created_at ?? now,
+      updated_at: now
+    };
+    this.zones.set(name, zone);
+    await this.save();
+    return zone;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    if (!this.zones.delete(name)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Merges the named zones into one MultiPolygon together with the polygons
+   * already avoided, as accepted by ORS `options.avoid_polygons`.
+   */
+  toAvoidPolygons(names: string[], existing?: GeoJSONPolygon): GeoJSONPolygon {
+    const unknown = this.findUnknown(names);
+    if (unknown.length > 0) {
+      throw new InvalidProblemError(`Unknown restricted zones: ${unknown.join(', ')}`);
+    }
+
+    const polygons = [existing, ...names.map(name => this.zones.get(name)!.geometry)]
+      .flatMap(geometry => !geometry ? [] : geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates);
+    return polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.list(), null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}